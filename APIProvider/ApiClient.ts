@@ -0,0 +1,178 @@
+/**
+ * ApiClient.ts
+ *
+ * HTTP GET pipeline shared by metadata providers.
+ * Serves cached responses, queues requests through the scheduler,
+ * counts quota and converts failures into localized errors.
+ */
+
+import { requestUrl, RequestUrlResponse } from "obsidian";
+import { ErrorHandler } from "APIProvider/ErrorHandler";
+import { CacheCategory, ResponseCache } from "APIProvider/ResponseCache";
+import {
+	QueueStateListener,
+	RequestScheduler,
+} from "APIProvider/RequestScheduler";
+import { QuotaTracker } from "APIProvider/QuotaTracker";
+import { ProviderServices } from "APIProvider/MetadataProvider";
+import { t } from "../i18n";
+
+// Array values are sent as repeated parameters (genres.name=a&genres.name=b)
+export type QueryParams = Record<
+	string,
+	string | number | Array<string | number>
+>;
+
+/**
+ * Provider-specific request settings
+ */
+export interface ApiClientConfig {
+	baseUrl: string;
+	isValidToken: (token: string) => boolean;
+	// Headers and query parameters that carry token (excluded from cache key)
+	authorize: (token: string) => {
+		headers?: Record<string, string>;
+		params?: QueryParams;
+	};
+	getCacheCategory: (endpoint: string, params: QueryParams) => CacheCategory;
+	// False for successful responses that carry API error, they are not cached
+	shouldCache?: (body: unknown) => boolean;
+	trackQuota?: boolean;
+}
+
+export interface ApiRequestOptions {
+	headers?: Record<string, string>;
+	useCache?: boolean;
+}
+
+export class ApiClient {
+	private errorHandler: ErrorHandler;
+	private cache?: ResponseCache;
+	private scheduler?: RequestScheduler;
+	private quota?: QuotaTracker;
+
+	constructor(private config: ApiClientConfig, services: ProviderServices) {
+		this.errorHandler = new ErrorHandler();
+		this.cache = services.cache;
+		this.scheduler = services.scheduler;
+		this.quota = config.trackQuota ? services.quota : undefined;
+	}
+
+	/**
+	 * Subscribes to request queue state (pending requests, retries)
+	 */
+	onQueueStateChange(listener: QueueStateListener): () => void {
+		return this.scheduler?.subscribe(listener) ?? (() => undefined);
+	}
+
+	/**
+	 * Performs HTTP GET request to API.
+	 * Cached responses are returned without token check, so they work offline.
+	 */
+	async get<T>(
+		endpoint: string,
+		token: string,
+		params: QueryParams = {},
+		options: ApiRequestOptions = {}
+	): Promise<T> {
+		const cacheKey = this.buildUrl(endpoint, params);
+		const cache = options.useCache === false ? undefined : this.cache;
+
+		// Error bodies stored by older plugin versions are not returned
+		const cached = cache?.get<T>(cacheKey);
+		if (cached !== undefined && this.isCacheable(cached)) {
+			return cached;
+		}
+
+		if (!this.config.isValidToken(token)) {
+			throw new Error(t("provider.tokenRequired"));
+		}
+
+		const auth = this.config.authorize(token.trim());
+		const url = this.buildUrl(endpoint, { ...params, ...auth.params });
+
+		let res: RequestUrlResponse;
+		try {
+			res = await this.sendRequest(endpoint, url, token, {
+				...auth.headers,
+				...options.headers,
+			});
+		} catch (error: unknown) {
+			// Fall back to expired entry when there is no connection
+			const stale = this.errorHandler.isNetworkError(error)
+				? cache?.getStale<T>(cacheKey)
+				: undefined;
+			if (stale !== undefined && this.isCacheable(stale)) {
+				return stale;
+			}
+
+			throw this.errorHandler.handleApiError(error);
+		}
+
+		if (res.status >= 400) {
+			// 403 means daily request limit of the token is reached
+			if (res.status === 403) {
+				this.quota?.markExhausted(token);
+			}
+			throw this.errorHandler.handleApiError(res);
+		}
+
+		const data = res.json as T;
+		if (this.isCacheable(data)) {
+			cache?.set(
+				cacheKey,
+				this.config.getCacheCategory(endpoint, params),
+				data
+			);
+		}
+		return data;
+	}
+
+	private isCacheable(body: unknown): boolean {
+		return this.config.shouldCache?.(body) ?? true;
+	}
+
+	/**
+	 * Sends request through scheduler queue when available.
+	 * Every attempt, including retries, is counted against daily quota.
+	 */
+	private async sendRequest(
+		endpoint: string,
+		url: string,
+		token: string,
+		headers: Record<string, string>
+	): Promise<RequestUrlResponse> {
+		const send = () => {
+			this.quota?.record(token, endpoint);
+			return requestUrl({
+				url,
+				method: "GET",
+				headers: {
+					Accept: "*/*",
+					...headers,
+				},
+				throw: false,
+			});
+		};
+
+		return this.scheduler ? this.scheduler.schedule(send) : send();
+	}
+
+	/**
+	 * Builds URL with query parameters
+	 */
+	private buildUrl(endpoint: string, params: QueryParams): string {
+		const url = new URL(`${this.config.baseUrl}${endpoint}`);
+
+		for (const [key, value] of Object.entries(params)) {
+			const values = Array.isArray(value) ? value : [value];
+			for (const item of values) {
+				if (item !== undefined && item !== null && item !== "") {
+					url.searchParams.append(key, item.toString());
+				}
+			}
+		}
+
+		return url.href;
+	}
+}
@@ -4,12 +4,48 @@
  * Formats Kinopoisk API data for use in Obsidian templates
  */
 
-import { KinopoiskFullInfo, KinopoiskPerson } from "Models/kinopoisk_response";
+import {
+	KinopoiskEpisode,
+	KinopoiskFullInfo,
+	KinopoiskPerson,
+	KinopoiskPersonFullInfo,
+	KinopoiskRelatedMovie,
+	KinopoiskSeason,
+} from "Models/kinopoisk_response";
 import { MovieShow } from "Models/MovieShow.model";
+import { Person } from "Models/Person.model";
 import { capitalizeFirstLetter } from "Utils/utils";
+import { tWithParams } from "../i18n";
 
 const MAX_ARRAY_ITEMS = 15;
 const MAX_FACTS_COUNT = 5;
+const MAX_FILMOGRAPHY_ITEMS = 50;
+
+// Professions kept from persons, values of enProfession
+export type PersonProfession =
+	| "director"
+	| "actor"
+	| "writer"
+	| "producer"
+	| "composer"
+	| "operator"
+	| "editor"
+	| "designer"
+	| "voice_actor";
+
+export type PeopleLimits = Record<PersonProfession, number>;
+
+export const DEFAULT_PEOPLE_LIMITS: PeopleLimits = {
+	director: MAX_ARRAY_ITEMS,
+	actor: MAX_ARRAY_ITEMS,
+	writer: MAX_ARRAY_ITEMS,
+	producer: MAX_ARRAY_ITEMS,
+	composer: MAX_ARRAY_ITEMS,
+	operator: MAX_ARRAY_ITEMS,
+	editor: MAX_ARRAY_ITEMS,
+	designer: MAX_ARRAY_ITEMS,
+	voice_actor: MAX_ARRAY_ITEMS,
+};
 
 // Content type translations to Russian
 const TYPE_TRANSLATIONS: Record<string, string> = {
@@ -46,12 +82,22 @@ enum FormatType {
 }
 
 export class DataFormatter {
+	constructor(
+		private getPeopleLimits: () => PeopleLimits = () =>
+			DEFAULT_PEOPLE_LIMITS
+	) {}
+
 	/**
 	 * Transforms API data into MovieShow format
 	 */
 	public createMovieShowFrom(fullInfo: KinopoiskFullInfo): MovieShow {
-		const seasonsData = this.calculateSeasonsData(fullInfo.seasonsInfo);
+		const seasonsData = this.calculateSeasonsData(
+			fullInfo.seasonsInfo,
+			fullInfo.seasons
+		);
 		const people = this.extractPeople(fullInfo.persons || []);
+		// Person IDs of other providers are not Kinopoisk IDs
+		const hasKinopoiskIds = fullInfo.id > 0;
 		const companies = this.extractCompanies(fullInfo);
 		const facts = this.processFacts(fullInfo.facts || []);
 		const names = this.processNames(fullInfo);
@@ -132,22 +178,82 @@ export class DataFormatter {
 				[fullInfo.subType || ""],
 				FormatType.SHORT_VALUE
 			),
+			contentType: fullInfo.type || "",
 
 			// People
-			director: this.formatArray(
-				people.directors,
+			director: this.formatPeople(
+				people.director,
+				FormatType.SHORT_VALUE
+			),
+			directorsLinks: this.formatPeople(people.director, FormatType.LINK),
+			actors: this.formatPeople(people.actor, FormatType.SHORT_VALUE),
+			actorsLinks: this.formatPeople(people.actor, FormatType.LINK),
+			writers: this.formatPeople(people.writer, FormatType.SHORT_VALUE),
+			writersLinks: this.formatPeople(people.writer, FormatType.LINK),
+			producers: this.formatPeople(
+				people.producer,
+				FormatType.SHORT_VALUE
+			),
+			producersLinks: this.formatPeople(people.producer, FormatType.LINK),
+			composers: this.formatPeople(
+				people.composer,
 				FormatType.SHORT_VALUE
 			),
-			directorsLinks: this.formatArray(people.directors, FormatType.LINK),
-			actors: this.formatArray(people.actors, FormatType.SHORT_VALUE),
-			actorsLinks: this.formatArray(people.actors, FormatType.LINK),
-			writers: this.formatArray(people.writers, FormatType.SHORT_VALUE),
-			writersLinks: this.formatArray(people.writers, FormatType.LINK),
-			producers: this.formatArray(
-				people.producers,
+			composersLinks: this.formatPeople(people.composer, FormatType.LINK),
+			operators: this.formatPeople(
+				people.operator,
 				FormatType.SHORT_VALUE
 			),
-			producersLinks: this.formatArray(people.producers, FormatType.LINK),
+			operatorsLinks: this.formatPeople(people.operator, FormatType.LINK),
+			editors: this.formatPeople(people.editor, FormatType.SHORT_VALUE),
+			editorsLinks: this.formatPeople(people.editor, FormatType.LINK),
+			designers: this.formatPeople(
+				people.designer,
+				FormatType.SHORT_VALUE
+			),
+			designersLinks: this.formatPeople(people.designer, FormatType.LINK),
+			voiceActors: this.formatPeople(
+				people.voice_actor,
+				FormatType.SHORT_VALUE
+			),
+			voiceActorsLinks: this.formatPeople(
+				people.voice_actor,
+				FormatType.LINK
+			),
+			actorsWithRoles: this.formatPeople(
+				people.actor,
+				FormatType.SHORT_VALUE,
+				(person) =>
+					person.description
+						? `${person.name} — ${person.description}`
+						: person.name
+			),
+			actorsEnNames: this.formatPeople(
+				people.actor,
+				FormatType.SHORT_VALUE,
+				(person) => person.enName || person.name
+			),
+			actorsUrls: this.formatPeople(
+				hasKinopoiskIds ? people.actor : [],
+				FormatType.URL,
+				(person) => this.getPersonUrl(person)
+			),
+			directorsEnNames: this.formatPeople(
+				people.director,
+				FormatType.SHORT_VALUE,
+				(person) => person.enName || person.name
+			),
+			directorsUrls: this.formatPeople(
+				hasKinopoiskIds ? people.director : [],
+				FormatType.URL,
+				(person) => this.getPersonUrl(person)
+			),
+			actorsIds: hasKinopoiskIds
+				? people.actor.map((person) => person.id || 0)
+				: [],
+			directorsIds: hasKinopoiskIds
+				? people.director.map((person) => person.id || 0)
+				: [],
 
 			// Technical specifications
 			movieLength: fullInfo.movieLength || 0,
@@ -157,20 +263,36 @@ export class DataFormatter {
 			isComplete: (fullInfo.status || "") === "completed",
 			seasonsCount: seasonsData.count,
 			seriesInSeasonCount: seasonsData.averageEpisodesPerSeason,
+			episodesCount: seasonsData.episodeCounts.reduce(
+				(total, count) => total + count,
+				0
+			),
+			seasonEpisodesCounts: seasonsData.episodeCounts,
+			episodesChecklist: this.formatArray(
+				[this.createEpisodesChecklist(fullInfo.seasons || [])],
+				FormatType.SHORT_VALUE
+			),
 
 			// Ratings and votes
 			ratingKp: fullInfo.rating?.kp || 0,
 			ratingImdb: fullInfo.rating?.imdb || 0,
+			ratingTmdb: fullInfo.rating?.tmdb || 0,
 			ratingFilmCritics: fullInfo.rating?.filmCritics || 0,
 			ratingRussianFilmCritics: fullInfo.rating?.russianFilmCritics || 0,
 			votesKp: fullInfo.votes?.kp || 0,
 			votesImdb: fullInfo.votes?.imdb || 0,
+			votesTmdb: fullInfo.votes?.tmdb || 0,
 			votesFilmCritics: fullInfo.votes?.filmCritics || 0,
 			votesRussianFilmCritics: fullInfo.votes?.russianFilmCritics || 0,
 
 			// External IDs and links
+			// Data from other providers has no Kinopoisk ID (id = 0)
 			kinopoiskUrl: this.formatArray(
-				[`https://www.kinopoisk.ru/film/${fullInfo.id}/`],
+				[
+					fullInfo.id > 0
+						? `https://www.kinopoisk.ru/film/${fullInfo.id}/`
+						: "",
+				],
 				FormatType.URL
 			),
 			imdbId: this.formatArray(
@@ -291,18 +413,99 @@ export class DataFormatter {
 
 			// Related movies/series
 			sequelsAndPrequels: this.formatArray(
-				companies.sequelsAndPrequels,
+				companies.sequelsAndPrequels.map((movie) => movie.name),
 				FormatType.SHORT_VALUE
 			),
 			sequelsAndPrequelsLinks: this.formatArray(
-				companies.sequelsAndPrequels,
+				companies.sequelsAndPrequels.map((movie) => movie.name),
 				FormatType.LINK
 			),
+			sequelsAndPrequelsIds: companies.sequelsAndPrequels.map(
+				(movie) => movie.id || 0
+			),
+			sequelsAndPrequelsYears: companies.sequelsAndPrequels.map(
+				(movie) => movie.year || 0
+			),
+			sequelsAndPrequelsTypes: companies.sequelsAndPrequels.map((movie) =>
+				this.translateType(movie.type || "")
+			),
+			sequelsAndPrequelsRatings: companies.sequelsAndPrequels.map(
+				(movie) => movie.rating?.kp || 0
+			),
 		};
 
 		return item;
 	}
 
+	/**
+	 * Transforms person details into Person format
+	 */
+	public createPersonFrom(personInfo: KinopoiskPersonFullInfo): Person {
+		// Same film is listed once for every profession
+		const movieNames = Array.from(
+			new Set(
+				(personInfo.movies || []).map(
+					(movie) => movie.name || movie.alternativeName || ""
+				)
+			)
+		);
+
+		return {
+			id: personInfo.id,
+			name: this.formatArray(
+				[personInfo.name || personInfo.enName || ""],
+				FormatType.SHORT_VALUE
+			),
+			enName: this.formatArray(
+				[personInfo.enName || ""],
+				FormatType.SHORT_VALUE
+			),
+			photoUrl: this.formatArray(
+				[personInfo.photo || ""],
+				FormatType.URL
+			),
+			photoMarkdown: this.createImageLink(personInfo.photo || ""),
+			birthday: this.formatArray(
+				[this.formatDate(personInfo.birthday)],
+				FormatType.SHORT_VALUE
+			),
+			death: this.formatArray(
+				[this.formatDate(personInfo.death)],
+				FormatType.SHORT_VALUE
+			),
+			age: personInfo.age || 0,
+			birthPlace: this.formatArray(
+				(personInfo.birthPlace || []).map((place) => place.value),
+				FormatType.SHORT_VALUE
+			),
+			profession: this.formatArray(
+				(personInfo.profession || []).map((item) =>
+					capitalizeFirstLetter(item.value)
+				),
+				FormatType.SHORT_VALUE
+			),
+			kinopoiskUrl: this.formatArray(
+				[
+					personInfo.id > 0
+						? `https://www.kinopoisk.ru/name/${personInfo.id}/`
+						: "",
+				],
+				FormatType.URL
+			),
+			movies: this.formatArray(
+				movieNames,
+				FormatType.SHORT_VALUE,
+				MAX_FILMOGRAPHY_ITEMS
+			),
+			moviesLinks: this.formatArray(
+				movieNames,
+				FormatType.LINK,
+				MAX_FILMOGRAPHY_ITEMS
+			),
+			movieLink: [],
+		};
+	}
+
 	/**
 	 * Universal array formatting based on type
 	 */
@@ -317,9 +520,7 @@ export class DataFormatter {
 
 		switch (formatType) {
 			case FormatType.SHORT_VALUE:
-				return filteredItems.map((item) =>
-					this.cleanTextForMetadata(item)
-				);
+				return filteredItems.map((item) => item.trim());
 
 			case FormatType.LONG_TEXT:
 				return filteredItems.map((item) => {
@@ -344,16 +545,19 @@ export class DataFormatter {
 	}
 
 	/**
-	 * Calculates seasons data from seasons info
+	 * Calculates seasons data from seasons info.
+	 * Episode counts of loaded seasons are preferred.
 	 */
 	private calculateSeasonsData(
-		seasonsInfo?: Array<{ episodesCount: number }>
+		seasonsInfo?: Array<{ number: number; episodesCount: number }>,
+		seasons?: KinopoiskSeason[]
 	): {
 		count: number;
 		averageEpisodesPerSeason: number;
+		episodeCounts: number[];
 	} {
 		if (!seasonsInfo || seasonsInfo.length === 0) {
-			return { count: 0, averageEpisodesPerSeason: 0 };
+			return { count: 0, averageEpisodesPerSeason: 0, episodeCounts: [] };
 		}
 
 		const totalEpisodes = seasonsInfo.reduce(
@@ -362,44 +566,81 @@ export class DataFormatter {
 		);
 		const averageEpisodes = Math.ceil(totalEpisodes / seasonsInfo.length);
 
+		let episodeCounts = this.sortByNumber(seasonsInfo).map(
+			(season) => season.episodesCount
+		);
+		if (seasons && seasons.length > 0) {
+			episodeCounts = this.sortByNumber(seasons).map(
+				(season) => season.episodes?.length || season.episodesCount || 0
+			);
+		}
+
 		return {
 			count: seasonsInfo.length,
 			averageEpisodesPerSeason: averageEpisodes,
+			episodeCounts,
 		};
 	}
 
 	/**
-	 * Extracts people by profession from persons array
+	 * Builds Markdown checklist of episodes grouped under season headings
 	 */
-	private extractPeople(persons: KinopoiskPerson[]): {
-		directors: string[];
-		actors: string[];
-		writers: string[];
-		producers: string[];
-	} {
-		const result = {
-			directors: [] as string[],
-			actors: [] as string[],
-			writers: [] as string[],
-			producers: [] as string[],
-		};
+	private createEpisodesChecklist(seasons: KinopoiskSeason[]): string {
+		return this.sortByNumber(seasons)
+			.filter((season) => season.episodes && season.episodes.length > 0)
+			.map((season) => {
+				const heading = `### ${tWithParams("episodes.season", {
+					number: season.number,
+				})}`;
+				const items = this.sortByNumber(season.episodes || []).map(
+					(episode) => this.createEpisodeItem(episode)
+				);
+				return [heading, ...items].join("\n");
+			})
+			.join("\n\n");
+	}
+
+	/**
+	 * Task line of episode: number, name, air date and description below
+	 */
+	private createEpisodeItem(episode: KinopoiskEpisode): string {
+		const name =
+			this.stripHtmlTags(episode.name || episode.enName || "") ||
+			tWithParams("episodes.episode", { number: episode.number });
+		const airDate = this.formatDate(episode.airDate || episode.date);
+		const description = this.stripHtmlTags(episode.description || "")
+			.replace(/\s+/g, " ")
+			.trim();
+
+		let item = `- [ ] ${episode.number}. ${name}`;
+		if (airDate) item += ` (${airDate})`;
+		if (description) item += `\n  ${description}`;
+		return item;
+	}
+
+	private sortByNumber<T extends { number: number }>(items: T[]): T[] {
+		return [...items].sort((a, b) => a.number - b.number);
+	}
+
+	/**
+	 * Groups persons by profession, each group is cut to its limit
+	 */
+	private extractPeople(
+		persons: KinopoiskPerson[]
+	): Record<PersonProfession, KinopoiskPerson[]> {
+		const limits = { ...DEFAULT_PEOPLE_LIMITS, ...this.getPeopleLimits() };
+		const result = {} as Record<PersonProfession, KinopoiskPerson[]>;
+		for (const profession of Object.keys(limits) as PersonProfession[]) {
+			result[profession] = [];
+		}
 
 		for (const person of persons) {
-			if (!person.name || !person.enProfession) continue;
-
-			switch (person.enProfession) {
-				case "director":
-					result.directors.push(person.name);
-					break;
-				case "actor":
-					result.actors.push(person.name);
-					break;
-				case "writer":
-					result.writers.push(person.name);
-					break;
-				case "producer":
-					result.producers.push(person.name);
-					break;
+			if (!person.name || !person.name.trim()) continue;
+
+			const profession = person.enProfession as PersonProfession;
+			const group = result[profession];
+			if (group && group.length < limits[profession]) {
+				group.push(person);
 			}
 		}
 
@@ -407,12 +648,28 @@ export class DataFormatter {
 	}
 
 	/**
-	 * Extracts companies and related movies from API response
+	 * Formats person values, lists are already cut by people limits
+	 */
+	private formatPeople(
+		persons: KinopoiskPerson[],
+		formatType: FormatType,
+		getValue: (person: KinopoiskPerson) => string = (person) => person.name
+	): string[] {
+		return this.formatArray(persons.map(getValue), formatType, Infinity);
+	}
+
+	private getPersonUrl(person: KinopoiskPerson): string {
+		return person.id ? `https://www.kinopoisk.ru/name/${person.id}/` : "";
+	}
+
+	/**
+	 * Extracts companies and related movies from API response.
+	 * Related movies are cut to the same count for all their fields.
 	 */
 	private extractCompanies(fullInfo: KinopoiskFullInfo): {
 		networks: string[];
 		productionCompanies: string[];
-		sequelsAndPrequels: string[];
+		sequelsAndPrequels: KinopoiskRelatedMovie[];
 	} {
 		const networks =
 			fullInfo.networks?.items
@@ -424,10 +681,9 @@ export class DataFormatter {
 				?.map((company) => company.name)
 				.filter((name) => name && name.trim() !== "") || [];
 
-		const sequelsAndPrequels =
-			fullInfo.sequelsAndPrequels
-				?.map((movie) => movie.name)
-				.filter((name) => name && name.trim() !== "") || [];
+		const sequelsAndPrequels = (fullInfo.sequelsAndPrequels || [])
+			.filter((movie) => movie.name && movie.name.trim() !== "")
+			.slice(0, MAX_ARRAY_ITEMS);
 
 		return { networks, productionCompanies, sequelsAndPrequels };
 	}
@@ -483,7 +739,7 @@ export class DataFormatter {
 	}
 
 	/**
-	 * Cleans text from characters that might break metadata
+	 * Cleans text from characters not allowed in file names and links
 	 */
 	private cleanTextForMetadata(text: string): string {
 		if (!text) return "";
@@ -90,7 +90,10 @@ export class ErrorHandler {
 		return details;
 	}
 
-	private isNetworkError(error: unknown): boolean {
+	/**
+	 * Checks whether error was caused by missing connection
+	 */
+	public isNetworkError(error: unknown): boolean {
 		if (!(error instanceof Error)) {
 			return false;
 		}
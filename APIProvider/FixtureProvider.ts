@@ -0,0 +1,174 @@
+/**
+ * FixtureProvider.ts
+ *
+ * Offline data provider for template development and demos.
+ * Serves recorded Kinopoisk responses from fixture folder,
+ * falling back to bundled samples. Needs no token or network.
+ */
+
+import {
+	KinopoiskFullInfo,
+	KinopoiskSuggestItem,
+} from "Models/kinopoisk_response";
+import { MovieShow } from "Models/MovieShow.model";
+import { hasActiveFilters, SearchFilters } from "Models/SearchFilters.model";
+import { DataFormatter, PeopleLimits } from "APIProvider/DataFormatter";
+import { ApiValidator } from "APIProvider/ApiValidator";
+import { FixtureStore } from "APIProvider/FixtureStore";
+import { SAMPLE_MOVIES } from "APIProvider/fixtureSamples";
+import {
+	createLookupNotFoundError,
+	createNothingFoundError,
+	MetadataProvider,
+	SearchResultsPage,
+} from "APIProvider/MetadataProvider";
+import { MovieReference } from "Utils/movieReference";
+import { matchesSearchFilters } from "Utils/searchFilters";
+import { t } from "../i18n";
+
+export class FixtureProvider implements MetadataProvider {
+	readonly id = "fixture";
+	private dataFormatter: DataFormatter;
+	private validator: ApiValidator;
+
+	constructor(
+		private store: FixtureStore,
+		peopleLimits?: () => PeopleLimits
+	) {
+		this.dataFormatter = new DataFormatter(peopleLimits);
+		this.validator = new ApiValidator();
+	}
+
+	/**
+	 * No request queue is used, so there is nothing to report
+	 */
+	public onQueueStateChange(): () => void {
+		return () => undefined;
+	}
+
+	/**
+	 * Returns recorded search response for query,
+	 * otherwise searches names of recorded and bundled movies.
+	 * Empty query with filters lists all matching movies.
+	 */
+	public async searchByQuery(
+		query: string,
+		_token?: string,
+		filters?: SearchFilters
+	): Promise<SearchResultsPage> {
+		const withFilters = hasActiveFilters(filters);
+		const isDiscovery = !query.trim() && withFilters;
+
+		if (!isDiscovery && !this.validator.isValidSearchQuery(query)) {
+			throw new Error(t("provider.enterMovieTitle"));
+		}
+
+		const recorded = isDiscovery
+			? null
+			: await this.store.readSearch(query);
+		const candidates = recorded?.docs?.length
+			? recorded.docs
+			: await this.findMovies(query);
+
+		const items = candidates.filter(
+			(item) => !filters || matchesSearchFilters(item, filters)
+		);
+
+		if (items.length === 0) {
+			throw createNothingFoundError(query, withFilters);
+		}
+
+		// All fixtures fit into one page
+		return { items, page: 1, pages: 1, total: items.length };
+	}
+
+	/**
+	 * Returns recorded or bundled movie details by Kinopoisk ID
+	 */
+	public async getMovieById(id: number): Promise<MovieShow> {
+		if (!this.validator.isValidMovieId(id)) {
+			throw new Error(t("provider.invalidMovieId"));
+		}
+
+		const movieData =
+			(await this.store.readMovie(id)) ??
+			SAMPLE_MOVIES.find((movie) => movie.id === id);
+
+		if (!movieData) {
+			throw new Error(t("provider.movieInfoError"));
+		}
+
+		return this.dataFormatter.createMovieShowFrom(movieData);
+	}
+
+	/**
+	 * Retrieves fixture by Kinopoisk ID or by external ID stored in it
+	 */
+	public async lookup(reference: MovieReference): Promise<MovieShow> {
+		if (reference.source === "kinopoisk") {
+			return this.getMovieById(reference.id);
+		}
+
+		const movieData = (await this.getAllMovies()).find((movie) =>
+			reference.source === "imdb"
+				? movie.externalId?.imdb === reference.id
+				: movie.externalId?.tmdb === reference.id
+		);
+
+		if (!movieData) {
+			throw createLookupNotFoundError(reference);
+		}
+
+		return this.dataFormatter.createMovieShowFrom(movieData);
+	}
+
+	/**
+	 * Fixtures need no token
+	 */
+	public async validateToken(): Promise<boolean> {
+		return true;
+	}
+
+	/**
+	 * Searches names of recorded and bundled movies
+	 */
+	private async findMovies(query: string): Promise<KinopoiskSuggestItem[]> {
+		const searchQuery = query.trim().toLowerCase();
+
+		return (await this.getAllMovies())
+			.filter((movie) =>
+				[movie.name, movie.alternativeName, movie.enName].some((name) =>
+					name?.toLowerCase().includes(searchQuery)
+				)
+			)
+			.map((movie) => this.createSuggestItem(movie));
+	}
+
+	/**
+	 * Recorded movies replace bundled samples with the same ID
+	 */
+	private async getAllMovies(): Promise<KinopoiskFullInfo[]> {
+		const recorded = await this.store.listMovies();
+		const recordedIds = new Set(recorded.map((movie) => movie.id));
+
+		return [
+			...recorded,
+			...SAMPLE_MOVIES.filter((movie) => !recordedIds.has(movie.id)),
+		];
+	}
+
+	private createSuggestItem(movie: KinopoiskFullInfo): KinopoiskSuggestItem {
+		return {
+			id: movie.id,
+			name: movie.name,
+			alternativeName: movie.alternativeName || "",
+			type: movie.type,
+			year: movie.year,
+			poster: movie.poster,
+			genres: movie.genres,
+			countries: movie.countries,
+			rating: movie.rating,
+			ageRating: movie.ageRating,
+		};
+	}
+}
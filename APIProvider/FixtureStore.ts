@@ -0,0 +1,160 @@
+/**
+ * FixtureStore.ts
+ *
+ * Reads and records Kinopoisk API responses in a vault folder.
+ * Layout: search/<query>.json for search results, movie/<id>.json for details.
+ */
+
+import { DataAdapter, normalizePath } from "obsidian";
+import {
+	KinopoiskFullInfo,
+	KinopoiskSuggestItemsResponse,
+} from "Models/kinopoisk_response";
+import { readJsonFile } from "Utils/pluginStorage";
+
+const SEARCH_FOLDER = "search";
+const MOVIE_FOLDER = "movie";
+// Used when folder is not set, fixtures never go to vault root
+export const DEFAULT_FIXTURE_FOLDER = "kinopoisk-fixtures";
+
+export interface FixtureOptions {
+	folder: string;
+	record: boolean;
+}
+
+/**
+ * Converts search query into file name: lowercase, no path characters
+ */
+export function getFixtureQueryKey(query: string): string {
+	return query
+		.trim()
+		.toLowerCase()
+		.replace(/[\\/:*?"<>|#^[\]]/g, "")
+		.replace(/\s+/g, "-");
+}
+
+export class FixtureStore {
+	constructor(
+		private adapter: DataAdapter,
+		private getOptions: () => FixtureOptions
+	) {}
+
+	/**
+	 * Whether real responses should be saved to fixture folder
+	 */
+	get isRecording(): boolean {
+		return this.getOptions().record;
+	}
+
+	/**
+	 * Returns recorded search response for query
+	 */
+	async readSearch(
+		query: string
+	): Promise<KinopoiskSuggestItemsResponse | null> {
+		return readJsonFile<KinopoiskSuggestItemsResponse | null>(
+			this.adapter,
+			this.getSearchPath(query),
+			null
+		);
+	}
+
+	/**
+	 * Returns recorded movie details
+	 */
+	async readMovie(id: number): Promise<KinopoiskFullInfo | null> {
+		return readJsonFile<KinopoiskFullInfo | null>(
+			this.adapter,
+			this.getMoviePath(id),
+			null
+		);
+	}
+
+	/**
+	 * Returns all recorded movie details
+	 */
+	async listMovies(): Promise<KinopoiskFullInfo[]> {
+		const folder = this.getPath(MOVIE_FOLDER);
+		if (!(await this.adapter.exists(folder))) {
+			return [];
+		}
+
+		const { files } = await this.adapter.list(folder);
+		const movies = await Promise.all(
+			files
+				.filter((file) => file.endsWith(".json"))
+				.map((file) =>
+					readJsonFile<KinopoiskFullInfo | null>(
+						this.adapter,
+						file,
+						null
+					)
+				)
+		);
+
+		return movies.filter(
+			(movie): movie is KinopoiskFullInfo => movie !== null
+		);
+	}
+
+	/**
+	 * Saves search response when recording is enabled
+	 */
+	async saveSearch(
+		query: string,
+		response: KinopoiskSuggestItemsResponse
+	): Promise<void> {
+		if (this.isRecording) {
+			await this.write(
+				SEARCH_FOLDER,
+				this.getSearchPath(query),
+				response
+			);
+		}
+	}
+
+	/**
+	 * Saves movie details when recording is enabled
+	 */
+	async saveMovie(movie: KinopoiskFullInfo): Promise<void> {
+		if (this.isRecording) {
+			await this.write(MOVIE_FOLDER, this.getMoviePath(movie.id), movie);
+		}
+	}
+
+	private getPath(relativePath: string): string {
+		const folder =
+			this.getOptions().folder.trim() || DEFAULT_FIXTURE_FOLDER;
+		return normalizePath(`${folder}/${relativePath}`);
+	}
+
+	private getSearchPath(query: string): string {
+		return this.getPath(
+			`${SEARCH_FOLDER}/${getFixtureQueryKey(query)}.json`
+		);
+	}
+
+	private getMoviePath(id: number): string {
+		return this.getPath(`${MOVIE_FOLDER}/${id}.json`);
+	}
+
+	/**
+	 * Writes formatted JSON, so fixtures are easy to read and edit
+	 */
+	private async write(
+		subfolder: string,
+		path: string,
+		data: unknown
+	): Promise<void> {
+		try {
+			const folder = this.getPath(subfolder);
+			if (!(await this.adapter.exists(folder))) {
+				await this.adapter.mkdir(folder);
+			}
+
+			await this.adapter.write(path, JSON.stringify(data, null, "\t"));
+		} catch (error) {
+			console.error(`Failed to record fixture '${path}':`, error);
+		}
+	}
+}
@@ -0,0 +1,151 @@
+/**
+ * MetadataProvider.ts
+ *
+ * Common interface for movie metadata sources (Kinopoisk, TMDB, OMDb, fixtures).
+ * Every provider maps its data into the same search item and MovieShow models.
+ */
+
+import { KinopoiskSuggestItem } from "Models/kinopoisk_response";
+import { MovieShow } from "Models/MovieShow.model";
+import { Person } from "Models/Person.model";
+import { SearchFilters } from "Models/SearchFilters.model";
+import { ResponseCache } from "APIProvider/ResponseCache";
+import {
+	QueueStateListener,
+	RequestScheduler,
+} from "APIProvider/RequestScheduler";
+import { QuotaTracker } from "APIProvider/QuotaTracker";
+import { FixtureStore } from "APIProvider/FixtureStore";
+import { PeopleLimits } from "APIProvider/DataFormatter";
+import { formatMovieReference, MovieReference } from "Utils/movieReference";
+import { t, tWithParams } from "../i18n";
+
+export type ProviderId = "kinopoisk" | "tmdb" | "omdb" | "fixture";
+
+/**
+ * Whether search items and movies of provider carry Kinopoisk IDs
+ */
+export function usesKinopoiskIds(providerId: ProviderId): boolean {
+	return providerId === "kinopoisk" || providerId === "fixture";
+}
+
+/**
+ * Shared services injected by the plugin
+ */
+export interface ProviderServices {
+	cache?: ResponseCache;
+	scheduler?: RequestScheduler;
+	quota?: QuotaTracker;
+	fixtures?: FixtureStore; // Records responses in record mode
+	peopleLimits?: () => PeopleLimits;
+}
+
+/**
+ * Options of movie details request
+ */
+export interface MovieRequestOptions {
+	useCache?: boolean; // False loads fresh data past response cache
+}
+
+/**
+ * One page of search results with pagination info
+ */
+export interface SearchResultsPage {
+	items: KinopoiskSuggestItem[];
+	page: number;
+	pages: number;
+	total: number;
+}
+
+/**
+ * Creates error for empty search results
+ */
+export function createNothingFoundError(
+	query: string,
+	withFilters: boolean
+): Error {
+	if (withFilters) {
+		return new Error(t("provider.nothingFoundWithFilters"));
+	}
+
+	return new Error(
+		tWithParams("provider.nothingFound", { query }) +
+			" " +
+			t("provider.tryChangeQuery")
+	);
+}
+
+/**
+ * Creates error for reference kind that provider can't resolve
+ */
+export function createLookupNotSupportedError(
+	reference: MovieReference
+): Error {
+	return new Error(
+		tWithParams("provider.lookupNotSupported", {
+			reference: formatMovieReference(reference),
+		})
+	);
+}
+
+/**
+ * Creates error for reference that matches no movie
+ */
+export function createLookupNotFoundError(reference: MovieReference): Error {
+	return new Error(
+		tWithParams("provider.lookupNotFound", {
+			reference: formatMovieReference(reference),
+		})
+	);
+}
+
+export interface MetadataProvider {
+	readonly id: ProviderId;
+
+	/**
+	 * Search for movies and TV shows by query, page numbers start with 1.
+	 * Query may be empty when filters are set and provider supports discovery.
+	 */
+	searchByQuery(
+		query: string,
+		token: string,
+		filters?: SearchFilters,
+		page?: number
+	): Promise<SearchResultsPage>;
+
+	/**
+	 * Retrieves detailed information by provider's ID.
+	 * Type of search item helps providers with separate movie/TV endpoints.
+	 */
+	getMovieById(
+		id: number,
+		token: string,
+		type?: string,
+		options?: MovieRequestOptions
+	): Promise<MovieShow>;
+
+	/**
+	 * Retrieves details by Kinopoisk, IMDb or TMDB ID without search step
+	 */
+	lookup(
+		reference: MovieReference,
+		token: string,
+		options?: MovieRequestOptions
+	): Promise<MovieShow>;
+
+	/**
+	 * Retrieves person details by Kinopoisk person ID,
+	 * only providers with Kinopoisk IDs implement it
+	 */
+	getPersonById?(id: number, token: string): Promise<Person>;
+
+	/**
+	 * Validates API token by making test request
+	 */
+	validateToken(token: string): Promise<boolean>;
+
+	/**
+	 * Subscribes to request queue state (pending requests, retries)
+	 */
+	onQueueStateChange(listener: QueueStateListener): () => void;
+}
@@ -0,0 +1,312 @@
+/**
+ * OmdbProvider.ts
+ *
+ * Data provider for OMDb API (omdbapi.com).
+ * Numeric part of IMDb ID is used as item ID, data is mapped
+ * into Kinopoisk data structures for the common formatter.
+ */
+
+import {
+	KinopoiskFullInfo,
+	KinopoiskPerson,
+	KinopoiskSuggestItem,
+} from "Models/kinopoisk_response";
+import {
+	OmdbDetails,
+	OmdbSearchItem,
+	OmdbSearchResponse,
+} from "Models/omdb_response";
+import { MovieShow } from "Models/MovieShow.model";
+import { hasActiveFilters, SearchFilters } from "Models/SearchFilters.model";
+import { DataFormatter } from "APIProvider/DataFormatter";
+import { ApiValidator } from "APIProvider/ApiValidator";
+import { ApiClient } from "APIProvider/ApiClient";
+import { QueueStateListener } from "APIProvider/RequestScheduler";
+import {
+	createNothingFoundError,
+	createLookupNotSupportedError,
+	MetadataProvider,
+	MovieRequestOptions,
+	ProviderServices,
+	SearchResultsPage,
+} from "APIProvider/MetadataProvider";
+import { matchesSearchFilters } from "Utils/searchFilters";
+import { MovieReference } from "Utils/movieReference";
+import { t } from "../i18n";
+
+const API_BASE_URL = "https://www.omdbapi.com";
+const TOKEN_PATTERN = /^[A-Za-z0-9]{6,40}$/;
+const EMPTY_VALUE = "N/A";
+const RESULTS_PER_PAGE = 10;
+
+// Known title used for token validation (The Shawshank Redemption)
+const VALIDATION_IMDB_ID = "tt0111161";
+
+const TYPE_MAPPING: Record<string, string> = {
+	movie: "movie",
+	series: "tv-series",
+};
+
+/**
+ * Converts numeric ID back to IMDb ID (tt + at least 7 digits)
+ */
+export function toImdbId(id: number): string {
+	return `tt${id.toString().padStart(7, "0")}`;
+}
+
+/**
+ * Returns value without OMDb "N/A" placeholder
+ */
+function clean(value?: string): string {
+	return value && value !== EMPTY_VALUE ? value.trim() : "";
+}
+
+/**
+ * Splits comma separated list ("Drama, Sci-Fi")
+ */
+function splitList(value?: string): string[] {
+	return clean(value)
+		.split(",")
+		.map((item) => item.trim())
+		.filter((item) => item !== "");
+}
+
+/**
+ * Parses number with thousands separators and units ("1,234", "148 min")
+ */
+function parseNumber(value?: string): number {
+	const parsed = parseFloat(clean(value).replace(/[^\d.]/g, ""));
+	return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export class OmdbProvider implements MetadataProvider {
+	readonly id = "omdb";
+	private dataFormatter: DataFormatter;
+	private validator: ApiValidator;
+	private client: ApiClient;
+
+	constructor(services: ProviderServices = {}) {
+		this.dataFormatter = new DataFormatter(services.peopleLimits);
+		this.validator = new ApiValidator();
+		this.client = new ApiClient(
+			{
+				baseUrl: API_BASE_URL,
+				isValidToken: (token) => TOKEN_PATTERN.test(token.trim()),
+				authorize: (token) => ({ params: { apikey: token } }),
+				getCacheCategory: (_endpoint, params) =>
+					params.s !== undefined ? "search" : "details",
+				// Errors and missing titles come with status 200
+				shouldCache: (body) =>
+					(body as Partial<OmdbDetails>)?.Response !== "False",
+			},
+			services
+		);
+	}
+
+	/**
+	 * Subscribes to request queue state (pending requests, retries)
+	 */
+	public onQueueStateChange(listener: QueueStateListener): () => void {
+		return this.client.onQueueStateChange(listener);
+	}
+
+	/**
+	 * Search for movies and TV shows by query, filters are applied locally
+	 */
+	public async searchByQuery(
+		query: string,
+		token: string,
+		filters?: SearchFilters,
+		page = 1
+	): Promise<SearchResultsPage> {
+		if (!this.validator.isValidSearchQuery(query)) {
+			throw new Error(t("provider.enterMovieTitle"));
+		}
+
+		if (!this.validator.isValidPaginationParams(page)) {
+			throw new Error(t("validation.invalidPaginationParams"));
+		}
+
+		const searchResults = await this.client.get<OmdbSearchResponse>(
+			"/",
+			token,
+			{ s: query.trim(), page }
+		);
+
+		// OMDb reports empty result as Response: "False" with status 200
+		const items = (searchResults.Search || [])
+			.filter((item) => TYPE_MAPPING[item.Type])
+			.map((item) => this.createSuggestItem(item))
+			.filter((item) => !filters || matchesSearchFilters(item, filters));
+
+		const total = parseNumber(searchResults.totalResults);
+		const pages = Math.max(page, Math.ceil(total / RESULTS_PER_PAGE));
+
+		// Locally filtered page may be empty while next pages still match
+		if (items.length === 0 && page === 1 && pages <= 1) {
+			throw createNothingFoundError(query, hasActiveFilters(filters));
+		}
+
+		return { items, page, pages, total };
+	}
+
+	/**
+	 * Retrieves detailed movie/TV show information by numeric IMDb ID
+	 */
+	public async getMovieById(
+		id: number,
+		token: string,
+		type?: string,
+		options: MovieRequestOptions = {}
+	): Promise<MovieShow> {
+		if (!this.validator.isValidMovieId(id)) {
+			throw new Error(t("provider.invalidMovieId"));
+		}
+
+		const details = await this.client.get<OmdbDetails>(
+			"/",
+			token,
+			{ i: toImdbId(id), plot: "full" },
+			options
+		);
+
+		if (!details || details.Response === "False") {
+			throw new Error(t("provider.movieInfoError"));
+		}
+
+		return this.dataFormatter.createMovieShowFrom(
+			this.createFullInfo(details)
+		);
+	}
+
+	/**
+	 * Retrieves details by IMDb ID, other references are not supported
+	 */
+	public async lookup(
+		reference: MovieReference,
+		token: string,
+		options: MovieRequestOptions = {}
+	): Promise<MovieShow> {
+		if (reference.source !== "imdb") {
+			throw createLookupNotSupportedError(reference);
+		}
+
+		return this.getMovieById(
+			parseNumber(reference.id),
+			token,
+			undefined,
+			options
+		);
+	}
+
+	/**
+	 * Validates API token by making test request
+	 */
+	public async validateToken(token: string): Promise<boolean> {
+		if (!TOKEN_PATTERN.test(token.trim())) {
+			return false;
+		}
+
+		try {
+			const details = await this.client.get<OmdbDetails>(
+				"/",
+				token,
+				{ i: VALIDATION_IMDB_ID },
+				{ useCache: false }
+			);
+			return details.Response === "True";
+		} catch {
+			return false;
+		}
+	}
+
+	private createSuggestItem(item: OmdbSearchItem): KinopoiskSuggestItem {
+		const posterUrl = clean(item.Poster);
+
+		return {
+			id: parseNumber(item.imdbID),
+			name: item.Title,
+			alternativeName: "",
+			type: TYPE_MAPPING[item.Type],
+			year: parseInt(item.Year, 10) || 0,
+			poster: posterUrl
+				? { url: posterUrl, previewUrl: posterUrl }
+				: undefined,
+		};
+	}
+
+	/**
+	 * Converts OMDb details into Kinopoisk full info structure
+	 */
+	private createFullInfo(details: OmdbDetails): KinopoiskFullInfo {
+		const isSeries = details.Type === "series";
+		const posterUrl = clean(details.Poster);
+		const seasonsCount = parseNumber(details.totalSeasons);
+
+		// Year of series is a range ("2008–2013" or "2008–")
+		const [startYear, endYear] = clean(details.Year)
+			.split(/[–-]/)
+			.map((year) => parseInt(year, 10) || undefined);
+
+		const boxOffice = parseNumber(details.BoxOffice);
+
+		return {
+			id: 0, // No Kinopoisk ID for OMDb data
+			name: details.Title,
+			alternativeName: "",
+			type: TYPE_MAPPING[details.Type] || details.Type,
+			year: startYear || 0,
+			description: clean(details.Plot),
+			poster: posterUrl
+				? { url: posterUrl, previewUrl: posterUrl }
+				: undefined,
+			genres: splitList(details.Genre).map((name) => ({ name })),
+			countries: splitList(details.Country).map((name) => ({ name })),
+			persons: this.createPersons(details),
+			movieLength: parseNumber(details.Runtime),
+			isSeries,
+			seriesLength: isSeries ? parseNumber(details.Runtime) : undefined,
+			status: isSeries && endYear ? "completed" : undefined,
+			rating: { imdb: parseNumber(details.imdbRating) },
+			votes: { imdb: parseNumber(details.imdbVotes) },
+			externalId: { imdb: details.imdbID },
+			// OMDb has no episode counts, only number of seasons
+			seasonsInfo: Array.from({ length: seasonsCount }, (_, index) => ({
+				number: index + 1,
+				episodesCount: 0,
+			})),
+			ratingMpaa: clean(details.Rated),
+			fees: boxOffice
+				? { usa: { value: boxOffice, currency: "$" } }
+				: undefined,
+			premiere: { world: clean(details.Released) },
+			releaseYears: isSeries
+				? [{ start: startYear, end: endYear }]
+				: undefined,
+			productionCompanies: splitList(details.Production).map((name) => ({
+				name,
+			})),
+		};
+	}
+
+	/**
+	 * Converts comma separated people lists into persons
+	 */
+	private createPersons(details: OmdbDetails): KinopoiskPerson[] {
+		const toPersons = (
+			value: string | undefined,
+			enProfession: string
+		): KinopoiskPerson[] =>
+			splitList(value).map((name) => ({
+				// Remove roles in parentheses: "Jonathan Nolan (written by)"
+				name: name.replace(/\s*\(.*?\)\s*/g, "").trim(),
+				enProfession,
+			}));
+
+		return [
+			...toPersons(details.Director, "director"),
+			...toPersons(details.Writer, "writer"),
+			...toPersons(details.Actors, "actor"),
+		];
+	}
+}
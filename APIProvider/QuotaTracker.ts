@@ -0,0 +1,229 @@
+/**
+ * QuotaTracker.ts
+ *
+ * Counts Kinopoisk API requests per token and per day.
+ * Usage is stored in the plugin folder and kept for the last 30 days,
+ * days follow the API limit reset (midnight Moscow time).
+ */
+
+import { DataAdapter, debounce } from "obsidian";
+import { readJsonFile, writeJsonFile } from "Utils/pluginStorage";
+
+const USAGE_FILE_VERSION = 1;
+const SAVE_DELAY_MS = 2000;
+const HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// kinopoisk.dev resets daily limits at 00:00 Moscow time (UTC+3)
+const QUOTA_RESET_UTC_OFFSET_HOURS = 3;
+
+export interface QuotaOptions {
+	token: string;
+	dailyLimit: number;
+	warningThreshold: number;
+}
+
+export interface DayUsage {
+	total: number;
+	endpoints: Record<string, number>;
+	exhausted?: boolean; // Server reported that daily limit is reached
+}
+
+/**
+ * Usage summary for current token and current API day
+ */
+export interface QuotaStatus {
+	used: number;
+	limit: number;
+	remaining: number;
+	isWarning: boolean;
+	isExhausted: boolean;
+}
+
+export type QuotaListener = (status: QuotaStatus) => void;
+
+interface UsageFile {
+	version: number;
+	tokens: Record<string, Record<string, DayUsage>>;
+}
+
+/**
+ * Returns API day key (YYYY-MM-DD) for timestamp
+ */
+export function getQuotaDay(timestamp: number = Date.now()): string {
+	const shifted = new Date(
+		timestamp + QUOTA_RESET_UTC_OFFSET_HOURS * 60 * 60 * 1000
+	);
+	return shifted.toISOString().split("T")[0];
+}
+
+/**
+ * Replaces ids in endpoint path so usage is grouped by endpoint type
+ */
+export function normalizeEndpoint(endpoint: string): string {
+	return endpoint.replace(/\/\d+(?=\/|$)/g, "/{id}");
+}
+
+/**
+ * Creates short token fingerprint so raw tokens are not written to usage file
+ */
+function getTokenKey(token: string): string {
+	let hash = 5381;
+	for (const char of token.trim()) {
+		hash = ((hash << 5) + hash + char.charCodeAt(0)) >>> 0;
+	}
+	return hash.toString(16);
+}
+
+export class QuotaTracker {
+	private tokens: Record<string, Record<string, DayUsage>> = {};
+	private listeners = new Set<QuotaListener>();
+	private requestSave = debounce(() => this.save(), SAVE_DELAY_MS, true);
+
+	constructor(
+		private adapter: DataAdapter,
+		private filePath: string,
+		private getOptions: () => QuotaOptions
+	) {}
+
+	/**
+	 * Loads usage history from disk
+	 */
+	async load(): Promise<void> {
+		const file = await readJsonFile<UsageFile | null>(
+			this.adapter,
+			this.filePath,
+			null
+		);
+
+		this.tokens =
+			file && file.version === USAGE_FILE_VERSION ? file.tokens : {};
+		this.pruneHistory();
+	}
+
+	/**
+	 * Writes usage history to disk
+	 */
+	async save(): Promise<void> {
+		const file: UsageFile = {
+			version: USAGE_FILE_VERSION,
+			tokens: this.tokens,
+		};
+		await writeJsonFile(this.adapter, this.filePath, file);
+	}
+
+	/**
+	 * Writes pending changes immediately
+	 */
+	async flush(): Promise<void> {
+		this.requestSave.cancel();
+		await this.save();
+	}
+
+	/**
+	 * Subscribes to usage changes, returns unsubscribe function
+	 */
+	subscribe(listener: QuotaListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Counts one request sent with token
+	 */
+	record(token: string, endpoint: string): void {
+		const usage = this.ensureDayUsage(token, getQuotaDay());
+		const endpointKey = normalizeEndpoint(endpoint);
+
+		usage.total++;
+		usage.endpoints[endpointKey] = (usage.endpoints[endpointKey] ?? 0) + 1;
+
+		this.requestSave();
+		this.notify();
+	}
+
+	/**
+	 * Marks daily limit as reached after server refused request
+	 */
+	markExhausted(token: string): void {
+		const usage = this.ensureDayUsage(token, getQuotaDay());
+		if (usage.exhausted) {
+			return;
+		}
+
+		usage.exhausted = true;
+		this.requestSave();
+		this.notify();
+	}
+
+	/**
+	 * Returns usage summary for current token
+	 */
+	getStatus(): QuotaStatus {
+		const { token, dailyLimit, warningThreshold } = this.getOptions();
+		const usage = this.getDayUsage(token, getQuotaDay());
+		const used = usage?.total ?? 0;
+		const isExhausted =
+			Boolean(usage?.exhausted) || (dailyLimit > 0 && used >= dailyLimit);
+		const remaining = isExhausted ? 0 : Math.max(0, dailyLimit - used);
+
+		return {
+			used,
+			limit: dailyLimit,
+			remaining,
+			isWarning: dailyLimit > 0 && remaining <= warningThreshold,
+			isExhausted,
+		};
+	}
+
+	/**
+	 * Returns per-day usage of current token for the last 30 days, newest first
+	 */
+	getHistory(): Array<{ day: string; usage: DayUsage }> {
+		const days = this.tokens[getTokenKey(this.getOptions().token)] ?? {};
+
+		return Object.keys(days)
+			.sort()
+			.reverse()
+			.map((day) => ({ day, usage: days[day] }));
+	}
+
+	private getDayUsage(token: string, day: string): DayUsage | undefined {
+		return this.tokens[getTokenKey(token)]?.[day];
+	}
+
+	private ensureDayUsage(token: string, day: string): DayUsage {
+		const tokenKey = getTokenKey(token);
+		this.tokens[tokenKey] ??= {};
+		this.tokens[tokenKey][day] ??= { total: 0, endpoints: {} };
+		this.pruneHistory();
+
+		return this.tokens[tokenKey][day];
+	}
+
+	/**
+	 * Removes days older than history window
+	 */
+	private pruneHistory(): void {
+		const oldestDay = getQuotaDay(Date.now() - (HISTORY_DAYS - 1) * DAY_MS);
+
+		for (const days of Object.values(this.tokens)) {
+			for (const day of Object.keys(days)) {
+				if (day < oldestDay) {
+					delete days[day];
+				}
+			}
+		}
+	}
+
+	private notify(): void {
+		const status = this.getStatus();
+		this.listeners.forEach((listener) => {
+			try {
+				listener(status);
+			} catch (error) {
+				console.error("Quota listener error:", error);
+			}
+		});
+	}
+}
@@ -0,0 +1,201 @@
+/**
+ * RequestScheduler.ts
+ *
+ * Request queue for Kinopoisk API.
+ * Spaces requests to stay under the requests-per-second ceiling and retries
+ * rate-limited or temporarily failed responses with exponential backoff.
+ */
+
+import { RequestUrlResponse } from "obsidian";
+import { tWithParams } from "../i18n";
+
+// Statuses worth retrying: rate limit and temporary gateway failures
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+export interface SchedulerOptions {
+	requestsPerSecond: number;
+	maxRetries: number;
+}
+
+/**
+ * Snapshot of queue state reported to subscribers
+ */
+export interface QueueState {
+	pending: number; // Requests waiting in queue, including current one
+	retryAttempt: number; // 0 when current request is not being retried
+	maxRetries: number;
+	retryDelayMs: number;
+	lastStatus?: number;
+}
+
+export type QueueStateListener = (state: QueueState) => void;
+
+/**
+ * Returns localized retry message or null when request is not being retried
+ */
+export function getRetryMessage(state: QueueState): string | null {
+	if (state.retryAttempt === 0) {
+		return null;
+	}
+
+	return tWithParams("modals.retryingRequest", {
+		seconds: Math.ceil(state.retryDelayMs / 1000),
+		attempt: state.retryAttempt,
+		max: state.maxRetries,
+	});
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class RequestScheduler {
+	private queue: Promise<unknown> = Promise.resolve();
+	private pending = 0;
+	private lastRequestAt = 0;
+	private listeners = new Set<QueueStateListener>();
+
+	constructor(private getOptions: () => SchedulerOptions) {}
+
+	/**
+	 * Subscribes to queue state changes, returns unsubscribe function
+	 */
+	subscribe(listener: QueueStateListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Adds request to queue and resolves with its final response.
+	 * Request function must not throw on HTTP errors (use `throw: false`).
+	 */
+	async schedule(
+		send: () => Promise<RequestUrlResponse>
+	): Promise<RequestUrlResponse> {
+		this.pending++;
+		this.notify();
+
+		const run = this.queue.then(() => this.execute(send));
+		this.queue = run.catch(() => undefined);
+
+		try {
+			return await run;
+		} finally {
+			this.pending--;
+			this.notify();
+		}
+	}
+
+	/**
+	 * Sends request, retrying retryable statuses until attempts run out
+	 */
+	private async execute(
+		send: () => Promise<RequestUrlResponse>
+	): Promise<RequestUrlResponse> {
+		const { maxRetries } = this.getOptions();
+
+		for (let attempt = 0; ; attempt++) {
+			await this.waitForSlot();
+			const response = await send();
+
+			if (
+				!RETRYABLE_STATUSES.includes(response.status) ||
+				attempt >= maxRetries
+			) {
+				return response;
+			}
+
+			const retryDelayMs = this.getRetryDelay(response, attempt);
+			this.notify({
+				retryAttempt: attempt + 1,
+				retryDelayMs,
+				lastStatus: response.status,
+			});
+			await delay(retryDelayMs);
+		}
+	}
+
+	/**
+	 * Waits until next request fits into requests-per-second ceiling
+	 */
+	private async waitForSlot(): Promise<void> {
+		const { requestsPerSecond } = this.getOptions();
+		if (requestsPerSecond > 0) {
+			const interval = 1000 / requestsPerSecond;
+			const waitMs = this.lastRequestAt + interval - Date.now();
+			if (waitMs > 0) {
+				await delay(waitMs);
+			}
+		}
+
+		this.lastRequestAt = Date.now();
+	}
+
+	/**
+	 * Uses Retry-After header when present, otherwise exponential backoff with jitter
+	 */
+	private getRetryDelay(
+		response: RequestUrlResponse,
+		attempt: number
+	): number {
+		const retryAfter = this.parseRetryAfter(response.headers);
+		if (retryAfter !== null) {
+			return Math.min(retryAfter, MAX_BACKOFF_MS);
+		}
+
+		const backoff = BASE_BACKOFF_MS * 2 ** attempt;
+		const jitter = Math.random() * backoff * 0.5;
+		return Math.min(backoff + jitter, MAX_BACKOFF_MS);
+	}
+
+	/**
+	 * Parses Retry-After header given in seconds or as HTTP date
+	 */
+	private parseRetryAfter(
+		headers: Record<string, string> | undefined
+	): number | null {
+		const headerName = Object.keys(headers ?? {}).find(
+			(name) => name.toLowerCase() === "retry-after"
+		);
+		const value = headerName ? headers?.[headerName]?.trim() : "";
+		if (!value) {
+			return null;
+		}
+
+		const seconds = Number(value);
+		if (Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+
+		const date = Date.parse(value);
+		if (!isNaN(date)) {
+			return Math.max(0, date - Date.now());
+		}
+
+		return null;
+	}
+
+	private notify(
+		retry: Partial<
+			Pick<QueueState, "retryAttempt" | "retryDelayMs" | "lastStatus">
+		> = {}
+	): void {
+		const state: QueueState = {
+			pending: this.pending,
+			retryAttempt: retry.retryAttempt ?? 0,
+			maxRetries: this.getOptions().maxRetries,
+			retryDelayMs: retry.retryDelayMs ?? 0,
+			lastStatus: retry.lastStatus,
+		};
+
+		this.listeners.forEach((listener) => {
+			try {
+				listener(state);
+			} catch (error) {
+				console.error("Queue state listener error:", error);
+			}
+		});
+	}
+}
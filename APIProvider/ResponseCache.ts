@@ -0,0 +1,169 @@
+/**
+ * ResponseCache.ts
+ *
+ * Persistent cache for Kinopoisk API responses.
+ * Keeps raw JSON payloads in the plugin folder, expires them by
+ * per-endpoint TTL and evicts least recently used entries over the size cap.
+ */
+
+import { DataAdapter, debounce } from "obsidian";
+import { readJsonFile, writeJsonFile } from "Utils/pluginStorage";
+
+const CACHE_FILE_VERSION = 1;
+const SAVE_DELAY_MS = 2000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type CacheCategory = "search" | "details";
+
+export interface CacheOptions {
+	enabled: boolean;
+	ttlHours: Record<CacheCategory, number>;
+	maxEntries: number;
+}
+
+interface CacheEntry {
+	category: CacheCategory;
+	storedAt: number;
+	lastAccessAt: number;
+	data: unknown;
+}
+
+interface CacheFile {
+	version: number;
+	entries: Record<string, CacheEntry>;
+}
+
+export class ResponseCache {
+	private entries = new Map<string, CacheEntry>();
+	private requestSave = debounce(() => this.save(), SAVE_DELAY_MS, true);
+
+	constructor(
+		private adapter: DataAdapter,
+		private filePath: string,
+		private getOptions: () => CacheOptions
+	) {}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/**
+	 * Loads cache entries from disk
+	 */
+	async load(): Promise<void> {
+		const file = await readJsonFile<CacheFile | null>(
+			this.adapter,
+			this.filePath,
+			null
+		);
+
+		this.entries.clear();
+		if (!file || file.version !== CACHE_FILE_VERSION) {
+			return;
+		}
+
+		for (const [key, entry] of Object.entries(file.entries ?? {})) {
+			this.entries.set(key, entry);
+		}
+	}
+
+	/**
+	 * Writes cache entries to disk
+	 */
+	async save(): Promise<void> {
+		const file: CacheFile = {
+			version: CACHE_FILE_VERSION,
+			entries: Object.fromEntries(this.entries),
+		};
+		await writeJsonFile(this.adapter, this.filePath, file);
+	}
+
+	/**
+	 * Writes pending changes immediately
+	 */
+	async flush(): Promise<void> {
+		this.requestSave.cancel();
+		await this.save();
+	}
+
+	/**
+	 * Returns cached payload if it has not expired yet
+	 */
+	get<T>(key: string): T | undefined {
+		const options = this.getOptions();
+		if (!options.enabled) {
+			return undefined;
+		}
+
+		const entry = this.entries.get(key);
+		if (!entry || this.isExpired(entry, options)) {
+			return undefined;
+		}
+
+		entry.lastAccessAt = Date.now();
+		this.requestSave();
+		return entry.data as T;
+	}
+
+	/**
+	 * Returns cached payload regardless of its age (offline fallback)
+	 */
+	getStale<T>(key: string): T | undefined {
+		if (!this.getOptions().enabled) {
+			return undefined;
+		}
+
+		return this.entries.get(key)?.data as T | undefined;
+	}
+
+	/**
+	 * Stores payload and evicts least recently used entries over the cap
+	 */
+	set(key: string, category: CacheCategory, data: unknown): void {
+		const options = this.getOptions();
+		if (!options.enabled || options.maxEntries <= 0) {
+			return;
+		}
+
+		const now = Date.now();
+		this.entries.set(key, {
+			category,
+			storedAt: now,
+			lastAccessAt: now,
+			data,
+		});
+
+		this.evict(options.maxEntries);
+		this.requestSave();
+	}
+
+	/**
+	 * Removes all entries
+	 */
+	async clear(): Promise<void> {
+		this.entries.clear();
+		await this.flush();
+	}
+
+	private isExpired(entry: CacheEntry, options: CacheOptions): boolean {
+		const ttlHours = options.ttlHours[entry.category] ?? 0;
+		return Date.now() - entry.storedAt > ttlHours * HOUR_MS;
+	}
+
+	private evict(maxEntries: number): void {
+		if (this.entries.size <= maxEntries) {
+			return;
+		}
+
+		const byLastAccess = [...this.entries.entries()].sort(
+			([, a], [, b]) => a.lastAccessAt - b.lastAccessAt
+		);
+
+		for (const [key] of byLastAccess.slice(
+			0,
+			this.entries.size - maxEntries
+		)) {
+			this.entries.delete(key);
+		}
+	}
+}
@@ -0,0 +1,399 @@
+/**
+ * TmdbProvider.ts
+ *
+ * Data provider for The Movie Database (themoviedb.org).
+ * Maps TMDB movies and TV shows into Kinopoisk data structures,
+ * so notes are created with the same formatter and templates.
+ */
+
+import {
+	KinopoiskFullInfo,
+	KinopoiskImageUrl,
+	KinopoiskPerson,
+	KinopoiskSuggestItem,
+} from "Models/kinopoisk_response";
+import {
+	TmdbDetails,
+	TmdbFindResponse,
+	TmdbSearchItem,
+	TmdbSearchResponse,
+} from "Models/tmdb_response";
+import { MovieShow } from "Models/MovieShow.model";
+import { hasActiveFilters, SearchFilters } from "Models/SearchFilters.model";
+import { DataFormatter } from "APIProvider/DataFormatter";
+import { ApiValidator } from "APIProvider/ApiValidator";
+import { ApiClient } from "APIProvider/ApiClient";
+import { QueueStateListener } from "APIProvider/RequestScheduler";
+import {
+	createNothingFoundError,
+	createLookupNotFoundError,
+	createLookupNotSupportedError,
+	MetadataProvider,
+	MovieRequestOptions,
+	ProviderServices,
+	SearchResultsPage,
+} from "APIProvider/MetadataProvider";
+import { matchesSearchFilters } from "Utils/searchFilters";
+import { MovieReference } from "Utils/movieReference";
+import { getCurrentLanguage, t } from "../i18n";
+
+const API_BASE_URL = "https://api.themoviedb.org/3";
+const IMAGE_BASE_URL = "https://image.tmdb.org/t/p";
+const MAX_ACTORS = 30;
+
+// Animation genre ID, used to tell cartoons from live action
+const ANIMATION_GENRE_ID = 16;
+
+// API key (32 hex chars) or API Read Access Token (JWT)
+const TOKEN_PATTERN = /^[A-Za-z0-9\-_.]{20,500}$/;
+
+/**
+ * Checks whether token is API Read Access Token sent as Bearer header
+ */
+function isReadAccessToken(token: string): boolean {
+	return token.includes(".");
+}
+
+export class TmdbProvider implements MetadataProvider {
+	readonly id = "tmdb";
+	private dataFormatter: DataFormatter;
+	private validator: ApiValidator;
+	private client: ApiClient;
+
+	constructor(services: ProviderServices = {}) {
+		this.dataFormatter = new DataFormatter(services.peopleLimits);
+		this.validator = new ApiValidator();
+		this.client = new ApiClient(
+			{
+				baseUrl: API_BASE_URL,
+				isValidToken: (token) => TOKEN_PATTERN.test(token.trim()),
+				authorize: (token) =>
+					isReadAccessToken(token)
+						? { headers: { Authorization: `Bearer ${token}` } }
+						: { params: { api_key: token } },
+				getCacheCategory: (endpoint) =>
+					endpoint.startsWith("/search") ? "search" : "details",
+			},
+			services
+		);
+	}
+
+	/**
+	 * Subscribes to request queue state (pending requests, retries)
+	 */
+	public onQueueStateChange(listener: QueueStateListener): () => void {
+		return this.client.onQueueStateChange(listener);
+	}
+
+	/**
+	 * Search for movies and TV shows by query, filters are applied locally
+	 */
+	public async searchByQuery(
+		query: string,
+		token: string,
+		filters?: SearchFilters,
+		page = 1
+	): Promise<SearchResultsPage> {
+		if (!this.validator.isValidSearchQuery(query)) {
+			throw new Error(t("provider.enterMovieTitle"));
+		}
+
+		if (!this.validator.isValidPaginationParams(page)) {
+			throw new Error(t("validation.invalidPaginationParams"));
+		}
+
+		const searchResults = await this.client.get<TmdbSearchResponse>(
+			"/search/multi",
+			token,
+			{
+				query: query.trim(),
+				page,
+				language: this.getLanguage(),
+				include_adult: "false",
+			}
+		);
+
+		// Multi search also returns people
+		const items = (searchResults.results || [])
+			.filter((item) => item.media_type !== "person")
+			.map((item) => this.createSuggestItem(item))
+			.filter((item) => !filters || matchesSearchFilters(item, filters));
+
+		const pages = searchResults.total_pages || page;
+
+		// Locally filtered page may be empty while next pages still match
+		if (items.length === 0 && page === 1 && pages <= 1) {
+			throw createNothingFoundError(query, hasActiveFilters(filters));
+		}
+
+		return {
+			items,
+			page,
+			pages,
+			total: searchResults.total_results || items.length,
+		};
+	}
+
+	/**
+	 * Retrieves detailed movie/TV show information by TMDB ID
+	 */
+	public async getMovieById(
+		id: number,
+		token: string,
+		type?: string,
+		options: MovieRequestOptions = {}
+	): Promise<MovieShow> {
+		if (!this.validator.isValidMovieId(id)) {
+			throw new Error(t("provider.invalidMovieId"));
+		}
+
+		const isSeries = type === "tv-series" || type === "animated-series";
+		const details = await this.client.get<TmdbDetails>(
+			`/${isSeries ? "tv" : "movie"}/${id}`,
+			token,
+			{
+				language: this.getLanguage(),
+				append_to_response: "credits,external_ids",
+			},
+			options
+		);
+
+		if (!details) {
+			throw new Error(t("provider.movieInfoError"));
+		}
+
+		return this.dataFormatter.createMovieShowFrom(
+			this.createFullInfo(details, isSeries)
+		);
+	}
+
+	/**
+	 * Retrieves details by TMDB ID or finds TMDB ID by IMDb ID
+	 */
+	public async lookup(
+		reference: MovieReference,
+		token: string,
+		options: MovieRequestOptions = {}
+	): Promise<MovieShow> {
+		if (reference.source === "tmdb") {
+			return this.getMovieById(
+				reference.id,
+				token,
+				reference.mediaType === "tv" ? "tv-series" : "movie",
+				options
+			);
+		}
+
+		if (reference.source !== "imdb") {
+			throw createLookupNotSupportedError(reference);
+		}
+
+		const found = await this.client.get<TmdbFindResponse>(
+			`/find/${reference.id}`,
+			token,
+			{ external_source: "imdb_id" },
+			options
+		);
+
+		const movie = found.movie_results?.[0];
+		if (movie) {
+			return this.getMovieById(movie.id, token, "movie", options);
+		}
+
+		const series = found.tv_results?.[0];
+		if (series) {
+			return this.getMovieById(series.id, token, "tv-series", options);
+		}
+
+		throw createLookupNotFoundError(reference);
+	}
+
+	/**
+	 * Validates API token by making test request
+	 */
+	public async validateToken(token: string): Promise<boolean> {
+		if (!TOKEN_PATTERN.test(token.trim())) {
+			return false;
+		}
+
+		try {
+			await this.client.get<unknown>(
+				"/configuration",
+				token,
+				{},
+				{ useCache: false }
+			);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	private getLanguage(): string {
+		return getCurrentLanguage() === "ru" ? "ru-RU" : "en-US";
+	}
+
+	private createSuggestItem(item: TmdbSearchItem): KinopoiskSuggestItem {
+		const isSeries = item.media_type === "tv";
+
+		return {
+			id: item.id,
+			name: item.title || item.name || "",
+			alternativeName: item.original_title || item.original_name || "",
+			type: this.getType(isSeries, item.genre_ids || []),
+			year: this.getYear(item.release_date || item.first_air_date),
+			poster: this.getImage(item.poster_path, "w500"),
+		};
+	}
+
+	/**
+	 * Converts TMDB details into Kinopoisk full info structure
+	 */
+	private createFullInfo(
+		details: TmdbDetails,
+		isSeries: boolean
+	): KinopoiskFullInfo {
+		const genres = details.genres || [];
+		const startDate = isSeries
+			? details.first_air_date
+			: details.release_date;
+		const startYear = this.getYear(startDate);
+		const isCompleted = isSeries
+			? details.status === "Ended" || details.status === "Canceled"
+			: details.status === "Released";
+		const endYear =
+			isSeries && isCompleted
+				? this.getYear(details.last_air_date)
+				: undefined;
+		const episodeRunTime = details.episode_run_time?.[0];
+
+		return {
+			id: 0, // No Kinopoisk ID for TMDB data
+			name: (isSeries ? details.name : details.title) || "",
+			alternativeName:
+				(isSeries ? details.original_name : details.original_title) ||
+				"",
+			type: this.getType(
+				isSeries,
+				genres.map((genre) => genre.id || 0)
+			),
+			year: startYear,
+			description: details.overview,
+			slogan: details.tagline,
+			poster: this.getImage(details.poster_path, "w780"),
+			backdrop: this.getImage(details.backdrop_path, "w1280"),
+			genres: genres.map((genre) => ({ name: genre.name })),
+			countries: (details.production_countries || []).map((country) => ({
+				name: country.name,
+			})),
+			persons: this.createPersons(details),
+			movieLength: isSeries ? episodeRunTime : details.runtime,
+			isSeries,
+			seriesLength: isSeries ? episodeRunTime : undefined,
+			status: isCompleted ? "completed" : details.status,
+			rating: { tmdb: details.vote_average },
+			votes: { tmdb: details.vote_count },
+			externalId: {
+				imdb: details.imdb_id || details.external_ids?.imdb_id || "",
+				tmdb: details.id,
+			},
+			seasonsInfo: (details.seasons || [])
+				.filter((season) => season.season_number > 0)
+				.map((season) => ({
+					number: season.season_number,
+					episodesCount: season.episode_count,
+				})),
+			budget: details.budget
+				? { value: details.budget, currency: "$" }
+				: undefined,
+			fees: details.revenue
+				? { world: { value: details.revenue, currency: "$" } }
+				: undefined,
+			premiere: { world: startDate },
+			releaseYears: isSeries
+				? [{ start: startYear, end: endYear }]
+				: undefined,
+			networks: {
+				items: (details.networks || []).map((network) => ({
+					name: network.name,
+				})),
+			},
+			productionCompanies: (details.production_companies || []).map(
+				(company) => ({ name: company.name })
+			),
+		};
+	}
+
+	/**
+	 * Converts cast and crew into persons with Kinopoisk professions
+	 */
+	private createPersons(details: TmdbDetails): KinopoiskPerson[] {
+		const persons: KinopoiskPerson[] = [];
+		const crew = details.credits?.crew || [];
+
+		// Series creators are listed as directors
+		for (const creator of details.created_by || []) {
+			persons.push({ name: creator.name, enProfession: "director" });
+		}
+
+		for (const member of crew) {
+			if (member.job === "Director") {
+				persons.push({
+					id: member.id,
+					name: member.name,
+					enProfession: "director",
+				});
+			} else if (member.department === "Writing") {
+				persons.push({
+					id: member.id,
+					name: member.name,
+					enProfession: "writer",
+				});
+			} else if (member.job === "Producer") {
+				persons.push({
+					id: member.id,
+					name: member.name,
+					enProfession: "producer",
+				});
+			}
+		}
+
+		for (const actor of (details.credits?.cast || []).slice(
+			0,
+			MAX_ACTORS
+		)) {
+			persons.push({
+				id: actor.id,
+				name: actor.name,
+				description: actor.character,
+				enProfession: "actor",
+			});
+		}
+
+		return persons;
+	}
+
+	private getType(isSeries: boolean, genreIds: number[]): string {
+		const isAnimation = genreIds.includes(ANIMATION_GENRE_ID);
+		if (isSeries) {
+			return isAnimation ? "animated-series" : "tv-series";
+		}
+		return isAnimation ? "cartoon" : "movie";
+	}
+
+	private getYear(date?: string): number {
+		return date ? parseInt(date.slice(0, 4), 10) || 0 : 0;
+	}
+
+	private getImage(
+		path: string | null | undefined,
+		size: string
+	): KinopoiskImageUrl | undefined {
+		if (!path) return undefined;
+
+		return {
+			url: `${IMAGE_BASE_URL}/${size}${path}`,
+			previewUrl: `${IMAGE_BASE_URL}/w185${path}`,
+		};
+	}
+}
@@ -0,0 +1,295 @@
+/**
+ * fixtureSamples.ts
+ *
+ * Bundled Kinopoisk responses for the movies from Example Vault.
+ * Used by fixture provider when fixture folder has no data.
+ */
+
+import { KinopoiskFullInfo } from "Models/kinopoisk_response";
+
+export const SAMPLE_MOVIES: KinopoiskFullInfo[] = [
+	{
+		id: 258687,
+		name: "Интерстеллар",
+		alternativeName: "Interstellar",
+		enName: "Interstellar",
+		type: "movie",
+		typeNumber: 1,
+		year: 2014,
+		description:
+			"Когда засуха, пыльные бури и вымирание растений приводят человечество к продовольственному кризису, коллектив исследователей и учёных отправляется сквозь червоточину (которая предположительно соединяет области пространства-времени через большое расстояние) в путешествие, чтобы превзойти прежние ограничения для космических путешествий человека и найти планету с подходящими для человечества условиями.",
+		shortDescription:
+			"Фантастический эпос про задыхающуюся Землю, космические полеты и парадоксы времени. «Оскар» за спецэффекты",
+		slogan: "Следующий шаг человечества станет величайшим",
+		poster: {
+			url: "https://image.openmoviedb.com/kinopoisk-images/1600647/430042eb-ee69-4818-aed0-a312400a26bf/600x900",
+			previewUrl:
+				"https://image.openmoviedb.com/kinopoisk-images/1600647/430042eb-ee69-4818-aed0-a312400a26bf/x1000",
+		},
+		genres: [
+			{ name: "фантастика" },
+			{ name: "драма" },
+			{ name: "приключения" },
+		],
+		countries: [
+			{ name: "США" },
+			{ name: "Великобритания" },
+			{ name: "Канада" },
+		],
+		persons: [
+			{
+				id: 22260,
+				name: "Кристофер Нолан",
+				enName: "Christopher Nolan",
+				profession: "режиссеры",
+				enProfession: "director",
+			},
+			{
+				id: 797,
+				name: "Мэттью МакКонахи",
+				enName: "Matthew McConaughey",
+				description: "Купер",
+				profession: "актеры",
+				enProfession: "actor",
+			},
+			{
+				id: 38703,
+				name: "Энн Хэтэуэй",
+				enName: "Anne Hathaway",
+				description: "Брэнд",
+				profession: "актеры",
+				enProfession: "actor",
+			},
+			{
+				id: 27042,
+				name: "Джессика Честейн",
+				enName: "Jessica Chastain",
+				description: "Мёрф",
+				profession: "актеры",
+				enProfession: "actor",
+			},
+			{
+				id: 72713,
+				name: "Джонатан Нолан",
+				enName: "Jonathan Nolan",
+				profession: "сценаристы",
+				enProfession: "writer",
+			},
+			{
+				id: 22260,
+				name: "Кристофер Нолан",
+				enName: "Christopher Nolan",
+				profession: "сценаристы",
+				enProfession: "writer",
+			},
+			{
+				id: 22308,
+				name: "Эмма Томас",
+				enName: "Emma Thomas",
+				profession: "продюсеры",
+				enProfession: "producer",
+			},
+		],
+		movieLength: 169,
+		isSeries: false,
+		status: "completed",
+		rating: {
+			kp: 8.659,
+			imdb: 8.7,
+			filmCritics: 7.2,
+			russianFilmCritics: 89.2857,
+		},
+		votes: {
+			kp: 1018573,
+			imdb: 2324654,
+			filmCritics: 376,
+			russianFilmCritics: 28,
+		},
+		externalId: { imdb: "tt0816692", tmdb: 157336 },
+		budget: { value: 165000000, currency: "$" },
+		fees: {
+			world: { value: 677463813, currency: "$" },
+			russia: { value: 24110578, currency: "$" },
+			usa: { value: 188020017, currency: "$" },
+		},
+		premiere: {
+			world: "2014-10-26T00:00:00.000Z",
+			russia: "2014-11-06T00:00:00.000Z",
+			digital: "2015-03-31T00:00:00.000Z",
+		},
+		facts: [
+			{
+				value: "Стивен Спилберг был прикреплен к проекту с 2006 года и нанял Джонатана Нолана писать сценарий, но отложил работу и занялся другими фильмами.",
+				type: "FACT",
+				spoiler: false,
+			},
+		],
+		ageRating: 6,
+		ratingMpaa: "pg13",
+		top250: 4,
+	},
+	{
+		id: 404900,
+		name: "Во все тяжкие",
+		alternativeName: "Breaking Bad",
+		enName: "",
+		type: "tv-series",
+		typeNumber: 2,
+		subType: "Сценарированный",
+		year: 2008,
+		description:
+			"Школьный учитель химии Уолтер Уайт узнаёт, что болен раком лёгких. Учитывая сложное финансовое состояние дел семьи, а также перспективы, Уолтер решает заняться изготовлением метамфетамина. Для этого он привлекает своего бывшего ученика Джесси Пинкмана, когда-то исключённого из школы при активном содействии Уайта. Пинкман сам занимался варкой мета, но накануне, в ходе рейда УБН, он лишился подельника и лаборатории.",
+		shortDescription:
+			"Умирающий учитель химии начинает варить мет ради благополучия семьи. Выдающийся драматический сериал 2010-х",
+		slogan: "Запомните моё имя",
+		poster: {
+			url: "https://image.openmoviedb.com/kinopoisk-images/1900788/fb35416f-3b0d-4b96-bc65-cf6923f9e329/600x900",
+			previewUrl:
+				"https://image.openmoviedb.com/kinopoisk-images/1900788/fb35416f-3b0d-4b96-bc65-cf6923f9e329/x1000",
+		},
+		backdrop: {
+			url: "https://image.openmoviedb.com/kinopoisk-ott-images/212840/2a0000017802c1ad72babf5fca7bb369de8e/1344x756",
+		},
+		logo: {
+			url: "https://image.openmoviedb.com/tmdb-images/original/j2Otiyd0jZQIpaaQmctDJDMR61z.png",
+		},
+		genres: [{ name: "криминал" }, { name: "драма" }, { name: "триллер" }],
+		countries: [{ name: "США" }],
+		persons: [
+			{
+				id: 2124,
+				name: "Брайан Крэнстон",
+				enName: "Bryan Cranston",
+				description: "Уолтер Уайт",
+				profession: "актеры",
+				enProfession: "actor",
+			},
+			{
+				id: 20664,
+				name: "Аарон Пол",
+				enName: "Aaron Paul",
+				description: "Джесси Пинкман",
+				profession: "актеры",
+				enProfession: "actor",
+			},
+			{
+				id: 1111242,
+				name: "Винс Гиллиган",
+				enName: "Vince Gilligan",
+				profession: "режиссеры",
+				enProfession: "director",
+			},
+			{
+				id: 1111242,
+				name: "Винс Гиллиган",
+				enName: "Vince Gilligan",
+				profession: "сценаристы",
+				enProfession: "writer",
+			},
+			{
+				id: 1111242,
+				name: "Винс Гиллиган",
+				enName: "Vince Gilligan",
+				profession: "продюсеры",
+				enProfession: "producer",
+			},
+		],
+		isSeries: true,
+		seriesLength: 47,
+		status: "completed",
+		rating: { kp: 8.914, imdb: 9.5, russianFilmCritics: 100 },
+		votes: { kp: 734260, imdb: 2341628, russianFilmCritics: 9 },
+		externalId: {
+			imdb: "tt0903747",
+			tmdb: 1396,
+			kpHD: "49c681d107948f2ebdf7dd6b46f6ebca",
+		},
+		seasonsInfo: [
+			{ number: 1, episodesCount: 7 },
+			{ number: 2, episodesCount: 13 },
+			{ number: 3, episodesCount: 13 },
+			{ number: 4, episodesCount: 13 },
+			{ number: 5, episodesCount: 16 },
+		],
+		premiere: {
+			world: "2008-01-20T00:00:00.000Z",
+			russia: "2011-03-17T00:00:00.000Z",
+			digital: "2008-01-20T00:00:00.000Z",
+		},
+		releaseYears: [{ start: 2008, end: 2013 }],
+		ageRating: 18,
+		top250: 2,
+		networks: { items: [{ name: "AMC" }] },
+	},
+	{
+		id: 1006863,
+		name: "Аркейн",
+		alternativeName: "Arcane",
+		enName: "",
+		type: "animated-series",
+		typeNumber: 5,
+		year: 2021,
+		description:
+			"История разворачивается в утопическом краю Пилтовер и жестоком подземном мире Заун и рассказывает о становлении двух легендарных чемпионов Лиги и о той силе, что разведёт их по разные стороны баррикад.",
+		poster: {
+			url: "https://image.openmoviedb.com/kinopoisk-images/4774061/d906e201-8f29-42ab-8a56-9d7e882856a2/600x900",
+			previewUrl:
+				"https://image.openmoviedb.com/kinopoisk-images/4774061/d906e201-8f29-42ab-8a56-9d7e882856a2/x1000",
+		},
+		genres: [
+			{ name: "мультфильм" },
+			{ name: "фантастика" },
+			{ name: "фэнтези" },
+			{ name: "боевик" },
+			{ name: "драма" },
+		],
+		countries: [{ name: "США" }, { name: "Франция" }],
+		persons: [
+			{
+				name: "Паскаль Шаррю",
+				enName: "Pascal Charrue",
+				profession: "режиссеры",
+				enProfession: "director",
+			},
+			{
+				name: "Арно Делорд",
+				enName: "Arnaud Delord",
+				profession: "режиссеры",
+				enProfession: "director",
+			},
+			{
+				name: "Хейли Стейнфелд",
+				enName: "Hailee Steinfeld",
+				profession: "актеры",
+				enProfession: "actor",
+			},
+			{
+				name: "Элла Пернелл",
+				enName: "Ella Purnell",
+				profession: "актеры",
+				enProfession: "actor",
+			},
+		],
+		isSeries: true,
+		seriesLength: 40,
+		status: "completed",
+		rating: { kp: 8.765, imdb: 9 },
+		votes: { kp: 229317, imdb: 330000 },
+		externalId: { imdb: "tt11126994", tmdb: 94605 },
+		seasonsInfo: [
+			{ number: 1, episodesCount: 9 },
+			{ number: 2, episodesCount: 9 },
+		],
+		premiere: { world: "2021-11-06T00:00:00.000Z" },
+		releaseYears: [{ start: 2021, end: 2024 }],
+		facts: [
+			{
+				value: "В 2013 году студия Fortiche Productions создала музыкальный клип Get Jinxed для компании Riot Games. Там уже фигурировали Джинкс, город Пилтовер, а также стиль анимации, который использован в мультсериале.",
+				type: "FACT",
+				spoiler: false,
+			},
+		],
+		ageRating: 16,
+		networks: { items: [{ name: "Netflix" }] },
+	},
+];
@@ -5,137 +5,299 @@
  * Handles movie and TV show data retrieval from kinopoisk.dev API
  * and transforms it for use in Obsidian templates.
  */
-import { requestUrl } from "obsidian";
 import {
 	KinopoiskSuggestItem,
 	KinopoiskSuggestItemsResponse,
 	KinopoiskFullInfo,
+	KinopoiskSeason,
+	KinopoiskSeasonsResponse,
+	KinopoiskPersonFullInfo,
 } from "Models/kinopoisk_response";
 import { MovieShow } from "Models/MovieShow.model";
-import { ErrorHandler } from "APIProvider/ErrorHandler";
+import { Person } from "Models/Person.model";
+import { hasActiveFilters, SearchFilters } from "Models/SearchFilters.model";
 import { DataFormatter } from "APIProvider/DataFormatter";
 import { ApiValidator } from "APIProvider/ApiValidator";
-import { t, tWithParams } from "../i18n";
+import { ApiClient, QueryParams } from "APIProvider/ApiClient";
+import { FixtureStore } from "APIProvider/FixtureStore";
+import { QueueStateListener } from "APIProvider/RequestScheduler";
+import {
+	createNothingFoundError,
+	createLookupNotFoundError,
+	MetadataProvider,
+	MovieRequestOptions,
+	ProviderServices,
+	SearchResultsPage,
+} from "APIProvider/MetadataProvider";
+import { matchesSearchFilters } from "Utils/searchFilters";
+import { MovieReference } from "Utils/movieReference";
+import { t } from "../i18n";
 
 const API_BASE_URL = "https://api.kinopoisk.dev/v1.4";
 const MAX_SEARCH_RESULTS = 50;
+const MIN_YEAR = 1874; // Year of the first film in Kinopoisk database
+const MAX_SEASONS = 100;
 
-export class KinopoiskProvider {
-	private errorHandler: ErrorHandler;
+export class KinopoiskProvider implements MetadataProvider {
+	readonly id = "kinopoisk";
 	private dataFormatter: DataFormatter;
 	private validator: ApiValidator;
+	private client: ApiClient;
+	private fixtures?: FixtureStore;
 
-	constructor() {
-		this.errorHandler = new ErrorHandler();
-		this.dataFormatter = new DataFormatter();
+	constructor(services: ProviderServices = {}) {
+		this.fixtures = services.fixtures;
+		this.dataFormatter = new DataFormatter(services.peopleLimits);
 		this.validator = new ApiValidator();
+		this.client = new ApiClient(
+			{
+				baseUrl: API_BASE_URL,
+				isValidToken: (token) => this.validator.isValidToken(token),
+				authorize: (token) => ({ headers: { "X-API-KEY": token } }),
+				getCacheCategory: (endpoint) =>
+					endpoint === "/movie/search" || endpoint === "/movie"
+						? "search"
+						: "details",
+				trackQuota: true,
+			},
+			services
+		);
+	}
+
+	/**
+	 * Subscribes to request queue state (pending requests, retries)
+	 */
+	public onQueueStateChange(listener: QueueStateListener): () => void {
+		return this.client.onQueueStateChange(listener);
 	}
 
 	/**
-	 * Performs HTTP GET request to API
+	 * Search for movies and TV shows by query.
+	 * Title search can't be combined with API filters, so its results
+	 * are filtered locally; without title filters are sent to /movie.
 	 */
-	private async apiGet<T>(
-		endpoint: string,
+	public async searchByQuery(
+		query: string,
 		token: string,
-		params: Record<string, string | number> = {},
-		headers?: Record<string, string>
-	): Promise<T> {
-		if (!this.validator.isValidToken(token)) {
-			throw new Error(t("provider.tokenRequired"));
+		filters?: SearchFilters,
+		page = 1
+	): Promise<SearchResultsPage> {
+		const withFilters = hasActiveFilters(filters);
+		const isDiscovery = !query.trim() && withFilters;
+
+		if (!isDiscovery && !this.validator.isValidSearchQuery(query)) {
+			throw new Error(t("provider.enterMovieTitle"));
 		}
 
-		const url = this.buildUrl(endpoint, params);
+		if (!this.validator.isValidPaginationParams(page, MAX_SEARCH_RESULTS)) {
+			throw new Error(t("validation.invalidPaginationParams"));
+		}
 
-		try {
-			const res = await requestUrl({
-				url,
-				method: "GET",
-				headers: {
-					Accept: "*/*",
-					"X-API-KEY": token.trim(),
-					...headers,
-				},
-			});
+		let searchResults: KinopoiskSuggestItemsResponse;
+		if (isDiscovery) {
+			searchResults =
+				await this.client.get<KinopoiskSuggestItemsResponse>(
+					"/movie",
+					token,
+					{ ...this.buildFilterParams(filters!), page }
+				);
+		} else {
+			searchResults =
+				await this.client.get<KinopoiskSuggestItemsResponse>(
+					"/movie/search",
+					token,
+					{
+						query: query.trim(),
+						page,
+						limit: MAX_SEARCH_RESULTS,
+					}
+				);
+			if (page === 1) {
+				await this.fixtures?.saveSearch(query, searchResults);
+			}
+		}
+
+		// Discovery results are already filtered by API
+		const docs = (searchResults.docs || []).filter(
+			(item) =>
+				isDiscovery ||
+				!withFilters ||
+				matchesSearchFilters(item, filters!)
+		);
 
-			return res.json as T;
-		} catch (error: unknown) {
-			throw this.errorHandler.handleApiError(error);
+		const pages = searchResults.pages ?? page;
+
+		// Locally filtered page may be empty while next pages still match
+		if (docs.length === 0 && page === 1 && pages <= 1) {
+			throw createNothingFoundError(query, withFilters);
 		}
+
+		return {
+			items: docs,
+			page,
+			pages,
+			total: searchResults.total ?? docs.length,
+		};
 	}
 
 	/**
-	 * Builds URL with query parameters
+	 * Converts filters into kinopoisk.dev /movie query parameters
 	 */
-	private buildUrl(
-		endpoint: string,
-		params: Record<string, string | number>
-	): string {
-		const url = new URL(`${API_BASE_URL}${endpoint}`);
-
-		for (const [key, value] of Object.entries(params)) {
-			if (value !== undefined && value !== null && value !== "") {
-				url.searchParams.set(key, value.toString());
-			}
+	private buildFilterParams(filters: SearchFilters): QueryParams {
+		const params: QueryParams = {
+			limit: MAX_SEARCH_RESULTS,
+			// Most voted titles first
+			sortField: "votes.kp",
+			sortType: -1,
+			notNullFields: "name",
+		};
+
+		if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+			params.year = `${filters.yearFrom ?? MIN_YEAR}-${
+				filters.yearTo ?? new Date().getFullYear() + 10
+			}`;
+		}
+		if (filters.types.length > 0) {
+			params.type = filters.types;
+		}
+		// "+" requires every genre instead of any of them
+		if (filters.genres.length > 0) {
+			params["genres.name"] = filters.genres.map((genre) => `+${genre}`);
+		}
+		if (filters.countries.length > 0) {
+			params["countries.name"] = filters.countries;
+		}
+		if (filters.minRatingKp !== undefined) {
+			params["rating.kp"] = `${filters.minRatingKp}-10`;
+		}
+		if (filters.minRatingImdb !== undefined) {
+			params["rating.imdb"] = `${filters.minRatingImdb}-10`;
+		}
+		if (filters.maxAgeRating !== undefined) {
+			params.ageRating = `0-${filters.maxAgeRating}`;
 		}
 
-		return url.href;
+		return params;
 	}
 
 	/**
-	 * Search for movies and TV shows by query
+	 * Retrieves detailed movie/TV show information by ID
 	 */
-	public async searchByQuery(
-		query: string,
-		token: string
-	): Promise<KinopoiskSuggestItem[]> {
-		if (!this.validator.isValidSearchQuery(query)) {
-			throw new Error(t("provider.enterMovieTitle"));
+	public async getMovieById(
+		id: number,
+		token: string,
+		type?: string,
+		options: MovieRequestOptions = {}
+	): Promise<MovieShow> {
+		if (!this.validator.isValidMovieId(id)) {
+			throw new Error(t("provider.invalidMovieId"));
 		}
 
-		const searchResults = await this.apiGet<KinopoiskSuggestItemsResponse>(
-			"/movie/search",
+		const movieData = await this.client.get<KinopoiskFullInfo>(
+			`/movie/${id}`,
 			token,
-			{
-				query: query.trim(),
-				limit: MAX_SEARCH_RESULTS,
-			}
+			{},
+			options
 		);
 
-		if (!searchResults.docs || searchResults.docs.length === 0) {
-			throw new Error(
-				tWithParams("provider.nothingFound", { query }) +
-					" " +
-					t("provider.tryChangeQuery")
-			);
+		if (!movieData) {
+			throw new Error(t("provider.movieInfoError"));
+		}
+
+		// Cached response is not changed, seasons are added to a copy
+		let fullInfo: KinopoiskFullInfo = movieData;
+		if (movieData.isSeries) {
+			const seasons = await this.getSeasons(id, token, options);
+			fullInfo = { ...movieData, seasons };
 		}
 
-		return searchResults.docs;
+		await this.fixtures?.saveMovie(fullInfo);
+
+		const movieShow = this.dataFormatter.createMovieShowFrom(fullInfo);
+
+		return movieShow;
 	}
 
 	/**
-	 * Retrieves detailed movie/TV show information by ID
+	 * Loads seasons with episodes of series.
+	 * Note is still created without episodes if request fails.
 	 */
-	public async getMovieById(id: number, token: string): Promise<MovieShow> {
-		if (!this.validator.isValidMovieId(id)) {
-			throw new Error(t("provider.invalidMovieId"));
+	private async getSeasons(
+		movieId: number,
+		token: string,
+		options: MovieRequestOptions
+	): Promise<KinopoiskSeason[]> {
+		try {
+			const response = await this.client.get<KinopoiskSeasonsResponse>(
+				"/season",
+				token,
+				{
+					movieId,
+					limit: MAX_SEASONS,
+					sortField: "number",
+					sortType: 1,
+				},
+				options
+			);
+			return response.docs || [];
+		} catch (error) {
+			console.warn("Failed to load seasons:", error);
+			return [];
 		}
+	}
 
-		if (!this.validator.isValidToken(token)) {
-			throw new Error(t("provider.tokenRequiredForMovie"));
+	/**
+	 * Retrieves person details with filmography by Kinopoisk person ID
+	 */
+	public async getPersonById(id: number, token: string): Promise<Person> {
+		if (!this.validator.isValidMovieId(id)) {
+			throw new Error(t("provider.invalidPersonId"));
 		}
 
-		const movieData = await this.apiGet<KinopoiskFullInfo>(
-			`/movie/${id}`,
+		const personData = await this.client.get<KinopoiskPersonFullInfo>(
+			`/person/${id}`,
 			token
 		);
 
-		if (!movieData) {
-			throw new Error(t("provider.movieInfoError"));
+		if (!personData) {
+			throw new Error(t("provider.personInfoError"));
 		}
 
-		const movieShow = this.dataFormatter.createMovieShowFrom(movieData);
+		return this.dataFormatter.createPersonFrom(personData);
+	}
 
-		return movieShow;
+	/**
+	 * Retrieves details by Kinopoisk ID or finds Kinopoisk ID by external ID
+	 */
+	public async lookup(
+		reference: MovieReference,
+		token: string,
+		options: MovieRequestOptions = {}
+	): Promise<MovieShow> {
+		if (reference.source === "kinopoisk") {
+			return this.getMovieById(reference.id, token, undefined, options);
+		}
+
+		const externalIdParam =
+			reference.source === "imdb" ? "externalId.imdb" : "externalId.tmdb";
+		const searchResults =
+			await this.client.get<KinopoiskSuggestItemsResponse>(
+				"/movie",
+				token,
+				{
+					[externalIdParam]: reference.id,
+					limit: 1,
+					selectFields: "id",
+				},
+				options
+			);
+
+		const movieId = searchResults.docs?.[0]?.id;
+		if (!movieId) {
+			throw createLookupNotFoundError(reference);
+		}
+
+		return this.getMovieById(movieId, token, undefined, options);
 	}
 
 	/**
@@ -147,10 +309,15 @@ export class KinopoiskProvider {
 		}
 
 		try {
-			await this.apiGet<{ docs: unknown[] }>("/movie", token, {
-				page: 1,
-				limit: 1,
-			});
+			await this.client.get<{ docs: unknown[] }>(
+				"/movie",
+				token,
+				{
+					page: 1,
+					limit: 1,
+				},
+				{ useCache: false }
+			);
 			return true;
 		} catch {
 			return false;
@@ -165,7 +332,7 @@ export async function getByQuery(
 	query: string,
 	token: string
 ): Promise<KinopoiskSuggestItem[]> {
-	return provider.searchByQuery(query, token);
+	return (await provider.searchByQuery(query, token)).items;
 }
 
 export async function getMovieShowById(
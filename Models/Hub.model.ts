@@ -0,0 +1,19 @@
+/**
+ * Hub.model.ts
+ *
+ * Hub note data model: genre, country, network or studio
+ * with vault movie notes that link to it.
+ */
+
+export type HubKind = "genre" | "country" | "network" | "studio";
+
+export interface Hub {
+	name: string[];
+	kind: string[]; // Hub kind ID, e.g. genre
+	moviesCount: number;
+	moviesLinks: string[]; // Formatted as [[Movie]] Obsidian links
+	moviesList: string[]; // Markdown list of movie links for note body
+}
+
+// Fields written as YAML lists in frontmatter
+export const HUB_LIST_FIELDS: ReadonlyArray<keyof Hub> = ["moviesLinks"];
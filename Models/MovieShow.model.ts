@@ -39,6 +39,7 @@ export interface MovieShow {
 	countriesLinks: string[]; // Formatted as [[Country]] Obsidian links
 	type: string[];
 	subType: string[];
+	contentType: string; // Type key of API: movie, tv-series, cartoon, anime, animated-series
 
 	// People
 	director: string[];
@@ -49,6 +50,23 @@ export interface MovieShow {
 	writersLinks: string[]; // Formatted as [[Writer]] Obsidian links
 	producers: string[];
 	producersLinks: string[]; // Formatted as [[Producer]] Obsidian links
+	composers: string[];
+	composersLinks: string[]; // Formatted as [[Composer]] Obsidian links
+	operators: string[]; // Cinematographers
+	operatorsLinks: string[]; // Formatted as [[Operator]] Obsidian links
+	editors: string[];
+	editorsLinks: string[]; // Formatted as [[Editor]] Obsidian links
+	designers: string[];
+	designersLinks: string[]; // Formatted as [[Designer]] Obsidian links
+	voiceActors: string[];
+	voiceActorsLinks: string[]; // Formatted as [[Voice actor]] Obsidian links
+	actorsWithRoles: string[]; // "Actor — Character"
+	actorsEnNames: string[]; // English names, Russian name when missing
+	actorsUrls: string[]; // Kinopoisk person pages
+	directorsEnNames: string[];
+	directorsUrls: string[];
+	actorsIds: number[]; // Kinopoisk person IDs in order of actors
+	directorsIds: number[];
 
 	// Technical specs
 	movieLength: number; // Duration in minutes
@@ -58,19 +76,24 @@ export interface MovieShow {
 	isComplete: boolean; // Series completion status
 	seasonsCount: number;
 	seriesInSeasonCount: number; // Average episodes per season
+	episodesCount: number; // Total episodes of all seasons
+	seasonEpisodesCounts: number[]; // Episodes of each season in season order
+	episodesChecklist: string[]; // Markdown task list grouped by season headings
 
 	// Ratings and votes
 	ratingKp: number;
 	ratingImdb: number;
+	ratingTmdb: number;
 	ratingFilmCritics: number;
 	ratingRussianFilmCritics: number;
 	votesKp: number;
 	votesImdb: number;
+	votesTmdb: number;
 	votesFilmCritics: number;
 	votesRussianFilmCritics: number;
 
 	// External IDs and links
-	kinopoiskUrl: string[]; // URLs without quotes
+	kinopoiskUrl: string[]; // URLs without quotes, empty for other providers
 	imdbId: string[];
 	tmdbId: number;
 	kpHDId: string[];
@@ -124,9 +147,59 @@ export interface MovieShow {
 	// Related movies/series
 	sequelsAndPrequels: string[];
 	sequelsAndPrequelsLinks: string[]; // Formatted as Obsidian links
+	sequelsAndPrequelsIds: number[]; // Kinopoisk IDs in order of titles
+	sequelsAndPrequelsYears: number[]; // 0 when year is unknown
+	sequelsAndPrequelsTypes: string[];
+	sequelsAndPrequelsRatings: number[]; // Kinopoisk rating, 0 when unknown
 
 	// File naming properties - cleaned of special characters, unquoted
 	nameForFile: string;
 	alternativeNameForFile: string;
 	enNameForFile: string;
 }
+
+// Fields holding lists, other array fields keep single value
+export const LIST_FIELDS: ReadonlyArray<keyof MovieShow> = [
+	"genres",
+	"genresLinks",
+	"countries",
+	"countriesLinks",
+	"director",
+	"directorsLinks",
+	"actors",
+	"actorsLinks",
+	"writers",
+	"writersLinks",
+	"producers",
+	"producersLinks",
+	"composers",
+	"composersLinks",
+	"operators",
+	"operatorsLinks",
+	"editors",
+	"editorsLinks",
+	"designers",
+	"designersLinks",
+	"voiceActors",
+	"voiceActorsLinks",
+	"actorsWithRoles",
+	"actorsEnNames",
+	"actorsUrls",
+	"directorsEnNames",
+	"directorsUrls",
+	"actorsIds",
+	"directorsIds",
+	"seasonEpisodesCounts",
+	"facts",
+	"allNamesString",
+	"networks",
+	"networksLinks",
+	"productionCompanies",
+	"productionCompaniesLinks",
+	"sequelsAndPrequels",
+	"sequelsAndPrequelsLinks",
+	"sequelsAndPrequelsIds",
+	"sequelsAndPrequelsYears",
+	"sequelsAndPrequelsTypes",
+	"sequelsAndPrequelsRatings",
+];
@@ -0,0 +1,32 @@
+/**
+ * Person.model.ts
+ *
+ * Person data model for person note templates.
+ * Follows MovieShow conventions: text fields are string arrays,
+ * links are quoted, numbers keep primitive types.
+ */
+
+export interface Person {
+	id: number; // Kinopoisk ID, 0 when unknown
+	name: string[];
+	enName: string[];
+	photoUrl: string[];
+	photoMarkdown: string[];
+	birthday: string[]; // YYYY-MM-DD
+	death: string[];
+	age: number;
+	birthPlace: string[];
+	profession: string[];
+	kinopoiskUrl: string[];
+	movies: string[]; // Filmography from Kinopoisk
+	moviesLinks: string[]; // Formatted as [[Movie]] Obsidian links
+	movieLink: string[]; // Link to note the person note was created from
+}
+
+// Fields written as YAML lists in frontmatter
+export const PERSON_LIST_FIELDS: ReadonlyArray<keyof Person> = [
+	"birthPlace",
+	"profession",
+	"movies",
+	"moviesLinks",
+];
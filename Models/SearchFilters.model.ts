@@ -0,0 +1,49 @@
+/**
+ * SearchFilters.model.ts
+ *
+ * Optional search filters set in search modal
+ * Empty arrays and undefined values mean "no filter"
+ */
+
+export interface SearchFilters {
+	yearFrom?: number;
+	yearTo?: number;
+	types: string[]; // Kinopoisk types: movie, tv-series, cartoon, anime, animated-series
+	genres: string[]; // Genre names in lowercase, as in Kinopoisk
+	countries: string[];
+	minRatingKp?: number;
+	minRatingImdb?: number;
+	maxAgeRating?: number;
+}
+
+export const CONTENT_TYPES = [
+	"movie",
+	"tv-series",
+	"cartoon",
+	"animated-series",
+	"anime",
+] as const;
+
+export const AGE_RATINGS = [0, 6, 12, 16, 18] as const;
+
+export function createEmptySearchFilters(): SearchFilters {
+	return { types: [], genres: [], countries: [] };
+}
+
+/**
+ * Checks whether at least one filter is set
+ */
+export function hasActiveFilters(filters?: SearchFilters): boolean {
+	if (!filters) return false;
+
+	return (
+		filters.yearFrom !== undefined ||
+		filters.yearTo !== undefined ||
+		filters.types.length > 0 ||
+		filters.genres.length > 0 ||
+		filters.countries.length > 0 ||
+		filters.minRatingKp !== undefined ||
+		filters.minRatingImdb !== undefined ||
+		filters.maxAgeRating !== undefined
+	);
+}
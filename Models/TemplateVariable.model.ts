@@ -0,0 +1,161 @@
+/**
+ * TemplateVariable.model.ts
+ *
+ * Catalog of template variables with category and value type.
+ * Descriptions are translated in i18n (variableCatalog.descriptions).
+ */
+
+import { LIST_FIELDS, MovieShow } from "Models/MovieShow.model";
+
+export type VariableCategory =
+	| "basic"
+	| "images"
+	| "classification"
+	| "people"
+	| "technical"
+	| "ratings"
+	| "identifiers"
+	| "additional"
+	| "finance"
+	| "premieres"
+	| "releases"
+	| "content"
+	| "production"
+	| "related"
+	| "fileNames";
+
+export type VariableType =
+	| "text"
+	| "number"
+	| "boolean"
+	| "date"
+	| "url"
+	| "markdown"
+	| "path"
+	| "link";
+
+export interface TemplateVariable {
+	name: keyof MovieShow;
+	category: VariableCategory;
+	type: VariableType;
+}
+
+// In order of README variable tables
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+	{ name: "id", category: "basic", type: "number" },
+	{ name: "name", category: "basic", type: "text" },
+	{ name: "alternativeName", category: "basic", type: "text" },
+	{ name: "year", category: "basic", type: "number" },
+	{ name: "description", category: "basic", type: "text" },
+	{ name: "shortDescription", category: "basic", type: "text" },
+	{ name: "posterUrl", category: "images", type: "url" },
+	{ name: "coverUrl", category: "images", type: "url" },
+	{ name: "logoUrl", category: "images", type: "url" },
+	{ name: "posterMarkdown", category: "images", type: "markdown" },
+	{ name: "coverMarkdown", category: "images", type: "markdown" },
+	{ name: "logoMarkdown", category: "images", type: "markdown" },
+	{ name: "posterPath", category: "images", type: "path" },
+	{ name: "coverPath", category: "images", type: "path" },
+	{ name: "logoPath", category: "images", type: "path" },
+	{ name: "genres", category: "classification", type: "text" },
+	{ name: "genresLinks", category: "classification", type: "link" },
+	{ name: "countries", category: "classification", type: "text" },
+	{ name: "countriesLinks", category: "classification", type: "link" },
+	{ name: "type", category: "classification", type: "text" },
+	{ name: "subType", category: "classification", type: "text" },
+	{ name: "contentType", category: "classification", type: "text" },
+	{ name: "director", category: "people", type: "text" },
+	{ name: "directorsLinks", category: "people", type: "link" },
+	{ name: "actors", category: "people", type: "text" },
+	{ name: "actorsLinks", category: "people", type: "link" },
+	{ name: "writers", category: "people", type: "text" },
+	{ name: "writersLinks", category: "people", type: "link" },
+	{ name: "producers", category: "people", type: "text" },
+	{ name: "producersLinks", category: "people", type: "link" },
+	{ name: "composers", category: "people", type: "text" },
+	{ name: "composersLinks", category: "people", type: "link" },
+	{ name: "operators", category: "people", type: "text" },
+	{ name: "operatorsLinks", category: "people", type: "link" },
+	{ name: "editors", category: "people", type: "text" },
+	{ name: "editorsLinks", category: "people", type: "link" },
+	{ name: "designers", category: "people", type: "text" },
+	{ name: "designersLinks", category: "people", type: "link" },
+	{ name: "voiceActors", category: "people", type: "text" },
+	{ name: "voiceActorsLinks", category: "people", type: "link" },
+	{ name: "actorsWithRoles", category: "people", type: "text" },
+	{ name: "actorsEnNames", category: "people", type: "text" },
+	{ name: "actorsUrls", category: "people", type: "url" },
+	{ name: "directorsEnNames", category: "people", type: "text" },
+	{ name: "directorsUrls", category: "people", type: "url" },
+	{ name: "actorsIds", category: "people", type: "number" },
+	{ name: "directorsIds", category: "people", type: "number" },
+	{ name: "movieLength", category: "technical", type: "number" },
+	{ name: "isSeries", category: "technical", type: "boolean" },
+	{ name: "seriesLength", category: "technical", type: "number" },
+	{ name: "totalSeriesLength", category: "technical", type: "number" },
+	{ name: "isComplete", category: "technical", type: "boolean" },
+	{ name: "seasonsCount", category: "technical", type: "number" },
+	{ name: "seriesInSeasonCount", category: "technical", type: "number" },
+	{ name: "episodesCount", category: "technical", type: "number" },
+	{ name: "seasonEpisodesCounts", category: "technical", type: "number" },
+	{ name: "episodesChecklist", category: "technical", type: "markdown" },
+	{ name: "ratingKp", category: "ratings", type: "number" },
+	{ name: "ratingImdb", category: "ratings", type: "number" },
+	{ name: "ratingTmdb", category: "ratings", type: "number" },
+	{ name: "ratingFilmCritics", category: "ratings", type: "number" },
+	{ name: "ratingRussianFilmCritics", category: "ratings", type: "number" },
+	{ name: "votesKp", category: "ratings", type: "number" },
+	{ name: "votesImdb", category: "ratings", type: "number" },
+	{ name: "votesTmdb", category: "ratings", type: "number" },
+	{ name: "votesFilmCritics", category: "ratings", type: "number" },
+	{ name: "votesRussianFilmCritics", category: "ratings", type: "number" },
+	{ name: "kinopoiskUrl", category: "identifiers", type: "url" },
+	{ name: "imdbId", category: "identifiers", type: "text" },
+	{ name: "tmdbId", category: "identifiers", type: "number" },
+	{ name: "kpHDId", category: "identifiers", type: "text" },
+	{ name: "slogan", category: "additional", type: "text" },
+	{ name: "ageRating", category: "additional", type: "number" },
+	{ name: "ratingMpaa", category: "additional", type: "text" },
+	{ name: "budgetValue", category: "finance", type: "number" },
+	{ name: "budgetCurrency", category: "finance", type: "text" },
+	{ name: "feesWorldValue", category: "finance", type: "number" },
+	{ name: "feesWorldCurrency", category: "finance", type: "text" },
+	{ name: "feesRussiaValue", category: "finance", type: "number" },
+	{ name: "feesRussiaCurrency", category: "finance", type: "text" },
+	{ name: "feesUsaValue", category: "finance", type: "number" },
+	{ name: "feesUsaCurrency", category: "finance", type: "text" },
+	{ name: "premiereWorld", category: "premieres", type: "date" },
+	{ name: "premiereRussia", category: "premieres", type: "date" },
+	{ name: "premiereDigital", category: "premieres", type: "date" },
+	{ name: "premiereCinema", category: "premieres", type: "date" },
+	{ name: "releaseYearsStart", category: "releases", type: "number" },
+	{ name: "releaseYearsEnd", category: "releases", type: "number" },
+	{ name: "top10", category: "releases", type: "number" },
+	{ name: "top250", category: "releases", type: "number" },
+	{ name: "facts", category: "content", type: "text" },
+	{ name: "allNamesString", category: "content", type: "text" },
+	{ name: "enName", category: "content", type: "text" },
+	{ name: "networks", category: "production", type: "text" },
+	{ name: "networksLinks", category: "production", type: "link" },
+	{ name: "productionCompanies", category: "production", type: "text" },
+	{ name: "productionCompaniesLinks", category: "production", type: "link" },
+	{ name: "distributor", category: "production", type: "text" },
+	{ name: "distributorRelease", category: "production", type: "date" },
+	{ name: "sequelsAndPrequels", category: "related", type: "text" },
+	{ name: "sequelsAndPrequelsLinks", category: "related", type: "link" },
+	{ name: "sequelsAndPrequelsIds", category: "related", type: "number" },
+	{ name: "sequelsAndPrequelsYears", category: "related", type: "number" },
+	{ name: "sequelsAndPrequelsTypes", category: "related", type: "text" },
+	{ name: "sequelsAndPrequelsRatings", category: "related", type: "number" },
+	{ name: "nameForFile", category: "fileNames", type: "text" },
+	{ name: "alternativeNameForFile", category: "fileNames", type: "text" },
+	{ name: "enNameForFile", category: "fileNames", type: "text" },
+];
+
+/**
+ * List variables hold several values: YAML list in frontmatter,
+ * comma separated text in note body
+ */
+export function isListVariable(variable: TemplateVariable): boolean {
+	return LIST_FIELDS.includes(variable.name);
+}
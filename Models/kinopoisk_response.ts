@@ -15,6 +15,11 @@ export interface KinopoiskSuggestItem {
 	type: string;
 	year: number;
 	poster?: KinopoiskImageUrl;
+	// Returned by kinopoisk.dev, used for filtering results
+	genres?: KinopoiskSimpleItem[];
+	countries?: KinopoiskSimpleItem[];
+	rating?: KinopoiskRatings;
+	ageRating?: number | null;
 }
 
 /**
@@ -22,6 +27,10 @@ export interface KinopoiskSuggestItem {
  */
 export interface KinopoiskSuggestItemsResponse {
 	docs: KinopoiskSuggestItem[];
+	total?: number;
+	limit?: number;
+	page?: number;
+	pages?: number;
 }
 
 /**
@@ -68,6 +77,7 @@ export interface KinopoiskFullInfo {
 	sequelsAndPrequels?: KinopoiskRelatedMovie[];
 	productionCompanies?: KinopoiskProductionCompany[];
 	distributors?: KinopoiskDistributors;
+	seasons?: KinopoiskSeason[]; // Loaded from /season for series
 }
 
 /**
@@ -98,6 +108,39 @@ export interface KinopoiskPerson {
 	photo?: string;
 }
 
+/**
+ * Person details from /person/{id} endpoint
+ */
+export interface KinopoiskPersonFullInfo {
+	id: number;
+	name?: string;
+	enName?: string;
+	photo?: string;
+	birthday?: string;
+	death?: string;
+	age?: number;
+	birthPlace?: KinopoiskValue[];
+	profession?: KinopoiskValue[];
+	movies?: KinopoiskPersonMovie[];
+}
+
+export interface KinopoiskValue {
+	value: string;
+}
+
+/**
+ * Film of person filmography
+ */
+export interface KinopoiskPersonMovie {
+	id: number;
+	name?: string;
+	alternativeName?: string;
+	rating?: number;
+	general?: boolean;
+	description?: string; // Character name for actors
+	enProfession?: string;
+}
+
 /**
  * Series season information
  */
@@ -106,12 +149,43 @@ export interface KinopoiskSeasonInfo {
 	episodesCount: number;
 }
 
+/**
+ * Season with episodes from /season endpoint
+ */
+export interface KinopoiskSeason {
+	movieId?: number;
+	number: number;
+	episodesCount?: number;
+	name?: string;
+	airDate?: string;
+	episodes?: KinopoiskEpisode[];
+}
+
+export interface KinopoiskEpisode {
+	number: number;
+	name?: string;
+	enName?: string;
+	airDate?: string;
+	date?: string;
+	description?: string;
+}
+
+/**
+ * Seasons response from kinopoisk.dev
+ */
+export interface KinopoiskSeasonsResponse {
+	docs: KinopoiskSeason[];
+	total?: number;
+	pages?: number;
+}
+
 /**
  * Ratings from various sources
  */
 export interface KinopoiskRatings {
 	kp?: number;
 	imdb?: number;
+	tmdb?: number;
 	filmCritics?: number;
 	russianFilmCritics?: number;
 	await?: number;
@@ -159,6 +233,7 @@ export interface KinopoiskPremiere {
 export interface KinopoiskVotes {
 	kp?: number;
 	imdb?: number;
+	tmdb?: number;
 	filmCritics?: number;
 	russianFilmCritics?: number;
 	await?: number;
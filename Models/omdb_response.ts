@@ -0,0 +1,60 @@
+/**
+ * omdb_response.ts
+ *
+ * Types for OMDb API (omdbapi.com)
+ * Missing values are returned by the API as "N/A"
+ */
+
+/**
+ * Search result item
+ */
+export interface OmdbSearchItem {
+	Title: string;
+	Year: string;
+	imdbID: string;
+	Type: string;
+	Poster: string;
+}
+
+/**
+ * Search response, Response is "False" when nothing is found
+ */
+export interface OmdbSearchResponse {
+	Search?: OmdbSearchItem[];
+	totalResults?: string;
+	Response: "True" | "False";
+	Error?: string;
+}
+
+export interface OmdbRating {
+	Source: string;
+	Value: string;
+}
+
+/**
+ * Movie or series details requested by IMDb ID
+ */
+export interface OmdbDetails {
+	Title: string;
+	Year: string;
+	Rated?: string;
+	Released?: string;
+	Runtime?: string;
+	Genre?: string;
+	Director?: string;
+	Writer?: string;
+	Actors?: string;
+	Plot?: string;
+	Country?: string;
+	Poster?: string;
+	Ratings?: OmdbRating[];
+	imdbRating?: string;
+	imdbVotes?: string;
+	imdbID: string;
+	Type: string;
+	totalSeasons?: string;
+	BoxOffice?: string;
+	Production?: string;
+	Response: "True" | "False";
+	Error?: string;
+}
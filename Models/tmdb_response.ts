@@ -0,0 +1,121 @@
+/**
+ * tmdb_response.ts
+ *
+ * Types for The Movie Database API (api.themoviedb.org/3)
+ * Only fields used for mapping into MovieShow are described
+ */
+
+/**
+ * Search result item of /search/multi
+ */
+export interface TmdbSearchItem {
+	id: number;
+	media_type: "movie" | "tv" | "person";
+	title?: string;
+	original_title?: string;
+	name?: string;
+	original_name?: string;
+	release_date?: string;
+	first_air_date?: string;
+	poster_path?: string | null;
+	genre_ids?: number[];
+}
+
+/**
+ * Paged search response
+ */
+export interface TmdbSearchResponse {
+	page: number;
+	results: TmdbSearchItem[];
+	total_pages: number;
+	total_results: number;
+}
+
+/**
+ * Response of /find/{external_id}
+ */
+export interface TmdbFindResponse {
+	movie_results?: Array<{ id: number }>;
+	tv_results?: Array<{ id: number }>;
+}
+
+export interface TmdbNamedItem {
+	id?: number;
+	name: string;
+}
+
+export interface TmdbCountry {
+	iso_3166_1: string;
+	name: string;
+}
+
+export interface TmdbCastMember {
+	id: number;
+	name: string;
+	original_name?: string;
+	character?: string;
+	profile_path?: string | null;
+}
+
+export interface TmdbCrewMember {
+	id: number;
+	name: string;
+	original_name?: string;
+	job: string;
+	department: string;
+	profile_path?: string | null;
+}
+
+export interface TmdbCredits {
+	cast?: TmdbCastMember[];
+	crew?: TmdbCrewMember[];
+}
+
+export interface TmdbExternalIds {
+	imdb_id?: string | null;
+}
+
+export interface TmdbSeason {
+	season_number: number;
+	episode_count: number;
+}
+
+/**
+ * Movie or TV show details with appended credits and external ids.
+ * Movie-only and TV-only fields are optional.
+ */
+export interface TmdbDetails {
+	id: number;
+	overview?: string;
+	tagline?: string;
+	status?: string;
+	poster_path?: string | null;
+	backdrop_path?: string | null;
+	genres?: TmdbNamedItem[];
+	production_countries?: TmdbCountry[];
+	production_companies?: TmdbNamedItem[];
+	vote_average?: number;
+	vote_count?: number;
+	credits?: TmdbCredits;
+	external_ids?: TmdbExternalIds;
+
+	// Movie fields
+	title?: string;
+	original_title?: string;
+	release_date?: string;
+	runtime?: number;
+	budget?: number;
+	revenue?: number;
+	imdb_id?: string | null;
+
+	// TV fields
+	name?: string;
+	original_name?: string;
+	first_air_date?: string;
+	last_air_date?: string;
+	episode_run_time?: number[];
+	number_of_episodes?: number;
+	seasons?: TmdbSeason[];
+	created_by?: TmdbNamedItem[];
+	networks?: TmdbNamedItem[];
+}
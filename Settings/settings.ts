@@ -2,16 +2,22 @@
  * settings.ts
  *
  * Plugin settings interface, defaults, and settings tab.
- * Manages API token, templates, folders, and image handling configuration.
+ * Manages data source, API tokens, templates, folders, and image handling configuration.
  */
 
 import { App, PluginSettingTab, Setting, Notice } from "obsidian";
 import ObsidianKinopoiskPlugin from "main";
 import { FolderSuggest } from "./Suggesters/FolderSuggester";
 import { FileSuggest } from "./Suggesters/FileSuggester";
-import { KinopoiskProvider } from "../APIProvider/provider";
+import { TemplatePreviewModal } from "../Views/template_preview_modal";
+import { ProviderId, usesKinopoiskIds } from "../APIProvider/MetadataProvider";
+import { DEFAULT_FIXTURE_FOLDER } from "../APIProvider/FixtureStore";
+import { PersonProfession } from "../APIProvider/DataFormatter";
+import { HubKind } from "../Models/Hub.model";
+import { EmptyValuePolicy } from "../Utils/templateEngine";
 import {
 	t,
+	tWithParams,
 	setLanguage,
 	getSupportedLanguages,
 	SupportedLanguage,
@@ -19,18 +25,259 @@ import {
 
 const docUrl =
 	"https://github.com/2PleXXX/obsidian-kinopoisk-search-plus-plugin";
-const apiSite = "https://kinopoisk.dev/";
+
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+	kinopoisk: "Kinopoisk (kinopoisk.dev)",
+	tmdb: "TMDB (themoviedb.org)",
+	omdb: "OMDb (omdbapi.com)",
+	fixture: "Fixtures (offline)",
+};
+
+/**
+ * Settings keys and signup page of each provider's token
+ */
+interface ProviderTokenSettings {
+	token: "apiToken" | "tmdbToken" | "omdbToken";
+	tokenValid: "apiTokenValid" | "tmdbTokenValid" | "omdbTokenValid";
+	tokenName: string; // Translation keys
+	tokenDesc: string;
+	site: string;
+}
+
+// Fixture provider works without token
+export const PROVIDER_TOKEN_SETTINGS: Partial<
+	Record<ProviderId, ProviderTokenSettings>
+> = {
+	kinopoisk: {
+		token: "apiToken",
+		tokenValid: "apiTokenValid",
+		tokenName: "settings.apiToken",
+		tokenDesc: "settings.apiTokenDesc",
+		site: "https://kinopoisk.dev/",
+	},
+	tmdb: {
+		token: "tmdbToken",
+		tokenValid: "tmdbTokenValid",
+		tokenName: "settings.tmdbToken",
+		tokenDesc: "settings.tmdbTokenDesc",
+		site: "https://www.themoviedb.org/settings/api",
+	},
+	omdb: {
+		token: "omdbToken",
+		tokenValid: "omdbTokenValid",
+		tokenName: "settings.omdbToken",
+		tokenDesc: "settings.omdbTokenDesc",
+		site: "https://www.omdbapi.com/apikey.aspx",
+	},
+};
+
+export type ContentType = "cartoon" | "anime" | "animated-series";
+
+/**
+ * Settings keys of content type that has own notes settings.
+ * Movies and series use movie and series settings.
+ */
+interface ContentTypeSettings {
+	fileNameFormat:
+		| "cartoonFileNameFormat"
+		| "animeFileNameFormat"
+		| "animatedSeriesFileNameFormat";
+	folder: "cartoonFolder" | "animeFolder" | "animatedSeriesFolder";
+	templateFile:
+		| "cartoonTemplateFile"
+		| "animeTemplateFile"
+		| "animatedSeriesTemplateFile";
+	heading: string; // Translation key
+	isSeries: boolean; // Sample type of template preview
+}
+
+/**
+ * Note settings chosen for a title
+ */
+export interface NoteSettings {
+	fileNameFormat: string;
+	folder: string;
+	templateFile: string;
+}
+
+export const CONTENT_TYPE_SETTINGS: Record<ContentType, ContentTypeSettings> = {
+	cartoon: {
+		fileNameFormat: "cartoonFileNameFormat",
+		folder: "cartoonFolder",
+		templateFile: "cartoonTemplateFile",
+		heading: "settings.cartoonsHeading",
+		isSeries: false,
+	},
+	anime: {
+		fileNameFormat: "animeFileNameFormat",
+		folder: "animeFolder",
+		templateFile: "animeTemplateFile",
+		heading: "settings.animeHeading",
+		isSeries: false,
+	},
+	"animated-series": {
+		fileNameFormat: "animatedSeriesFileNameFormat",
+		folder: "animatedSeriesFolder",
+		templateFile: "animatedSeriesTemplateFile",
+		heading: "settings.animatedSeriesHeading",
+		isSeries: true,
+	},
+};
+
+type PeopleLimitSetting =
+	| "maxDirectors"
+	| "maxActors"
+	| "maxWriters"
+	| "maxProducers"
+	| "maxComposers"
+	| "maxOperators"
+	| "maxEditors"
+	| "maxDesigners"
+	| "maxVoiceActors";
+
+// Settings key of people count limit for each profession
+export const PEOPLE_LIMIT_SETTINGS: Record<
+	PersonProfession,
+	PeopleLimitSetting
+> = {
+	director: "maxDirectors",
+	actor: "maxActors",
+	writer: "maxWriters",
+	producer: "maxProducers",
+	composer: "maxComposers",
+	operator: "maxOperators",
+	editor: "maxEditors",
+	designer: "maxDesigners",
+	voice_actor: "maxVoiceActors",
+};
+
+/**
+ * Settings keys of hub note kind and movie field with its links
+ */
+interface HubNoteSettings {
+	linksField:
+		| "genresLinks"
+		| "countriesLinks"
+		| "networksLinks"
+		| "productionCompaniesLinks";
+	folder:
+		| "genreHubFolder"
+		| "countryHubFolder"
+		| "networkHubFolder"
+		| "studioHubFolder";
+	templateFile:
+		| "genreHubTemplateFile"
+		| "countryHubTemplateFile"
+		| "networkHubTemplateFile"
+		| "studioHubTemplateFile";
+	name: string; // Translation key
+}
+
+export const HUB_NOTE_SETTINGS: Record<HubKind, HubNoteSettings> = {
+	genre: {
+		linksField: "genresLinks",
+		folder: "genreHubFolder",
+		templateFile: "genreHubTemplateFile",
+		name: "settings.hubKinds.genre",
+	},
+	country: {
+		linksField: "countriesLinks",
+		folder: "countryHubFolder",
+		templateFile: "countryHubTemplateFile",
+		name: "settings.hubKinds.country",
+	},
+	network: {
+		linksField: "networksLinks",
+		folder: "networkHubFolder",
+		templateFile: "networkHubTemplateFile",
+		name: "settings.hubKinds.network",
+	},
+	studio: {
+		linksField: "productionCompaniesLinks",
+		folder: "studioHubFolder",
+		templateFile: "studioHubTemplateFile",
+		name: "settings.hubKinds.studio",
+	},
+};
+
+export type WatchField = "status" | "rating" | "dates" | "rewatches";
+
+type WatchFieldSetting =
+	| "watchStatusField"
+	| "personalRatingField"
+	| "watchedDatesField"
+	| "rewatchCountField";
+
+// Settings key of frontmatter key name for each watch diary field
+export const WATCH_FIELD_SETTINGS: Record<WatchField, WatchFieldSetting> = {
+	status: "watchStatusField",
+	rating: "personalRatingField",
+	dates: "watchedDatesField",
+	rewatches: "rewatchCountField",
+};
 
 export interface ObsidianKinopoiskPluginSettings {
 	language: SupportedLanguage;
+	provider: ProviderId;
 	apiToken: string;
 	apiTokenValid: boolean;
+	tmdbToken: string;
+	tmdbTokenValid: boolean;
+	omdbToken: string;
+	omdbTokenValid: boolean;
 	movieFileNameFormat: string;
 	movieFolder: string;
 	movieTemplateFile: string;
+	movieEmptyValues: EmptyValuePolicy;
 	seriesFileNameFormat: string;
 	seriesFolder: string;
 	seriesTemplateFile: string;
+	seriesEmptyValues: EmptyValuePolicy;
+
+	// Content type settings, empty ones fall back to movie or series settings
+	cartoonFileNameFormat: string;
+	cartoonFolder: string;
+	cartoonTemplateFile: string;
+	animeFileNameFormat: string;
+	animeFolder: string;
+	animeTemplateFile: string;
+	animatedSeriesFileNameFormat: string;
+	animatedSeriesFolder: string;
+	animatedSeriesTemplateFile: string;
+
+	// People count limits by profession
+	maxDirectors: number;
+	maxActors: number;
+	maxWriters: number;
+	maxProducers: number;
+	maxComposers: number;
+	maxOperators: number;
+	maxEditors: number;
+	maxDesigners: number;
+	maxVoiceActors: number;
+
+	// Person notes settings
+	personNotesEnabled: boolean;
+	personNotesFolder: string;
+	personTemplateFile: string;
+	personNotesLimit: number;
+
+	// Hub notes settings
+	hubNotesEnabled: boolean;
+	genreHubFolder: string;
+	genreHubTemplateFile: string;
+	countryHubFolder: string;
+	countryHubTemplateFile: string;
+	networkHubFolder: string;
+	networkHubTemplateFile: string;
+	studioHubFolder: string;
+	studioHubTemplateFile: string;
+
+	// Watch diary frontmatter keys
+	watchStatusField: string;
+	personalRatingField: string;
+	watchedDatesField: string;
+	rewatchCountField: string;
 
 	// Image settings
 	imagesFolder: string;
@@ -38,18 +285,88 @@ export interface ObsidianKinopoiskPluginSettings {
 	savePosterImage: boolean;
 	saveCoverImage: boolean;
 	saveLogoImage: boolean;
+
+	// Response cache settings
+	cacheEnabled: boolean;
+	cacheSearchTtlHours: number;
+	cacheMovieTtlHours: number;
+	cacheMaxEntries: number;
+
+	// Request queue settings
+	requestsPerSecond: number;
+	maxRetries: number;
+
+	// Daily quota settings
+	dailyRequestLimit: number;
+	quotaWarningThreshold: number;
+
+	// Offline fixture settings
+	fixtureFolder: string;
+	fixtureRecord: boolean;
 }
 
 export const DEFAULT_SETTINGS: ObsidianKinopoiskPluginSettings = {
 	language: "en",
+	provider: "kinopoisk",
 	apiToken: "",
 	apiTokenValid: false,
+	tmdbToken: "",
+	tmdbTokenValid: false,
+	omdbToken: "",
+	omdbTokenValid: false,
 	movieFileNameFormat: "",
 	movieFolder: "",
 	movieTemplateFile: "",
+	movieEmptyValues: "empty",
 	seriesFileNameFormat: "",
 	seriesFolder: "",
 	seriesTemplateFile: "",
+	seriesEmptyValues: "empty",
+
+	// Content type defaults
+	cartoonFileNameFormat: "",
+	cartoonFolder: "",
+	cartoonTemplateFile: "",
+	animeFileNameFormat: "",
+	animeFolder: "",
+	animeTemplateFile: "",
+	animatedSeriesFileNameFormat: "",
+	animatedSeriesFolder: "",
+	animatedSeriesTemplateFile: "",
+
+	// People limit defaults
+	maxDirectors: 15,
+	maxActors: 15,
+	maxWriters: 15,
+	maxProducers: 15,
+	maxComposers: 15,
+	maxOperators: 15,
+	maxEditors: 15,
+	maxDesigners: 15,
+	maxVoiceActors: 15,
+
+	// Person notes defaults
+	personNotesEnabled: false,
+	personNotesFolder: "",
+	personTemplateFile: "",
+	personNotesLimit: 5,
+
+	// Hub notes defaults
+	hubNotesEnabled: false,
+	genreHubFolder: "",
+	genreHubTemplateFile: "",
+	countryHubFolder: "",
+	countryHubTemplateFile: "",
+	networkHubFolder: "",
+	networkHubTemplateFile: "",
+	studioHubFolder: "",
+	studioHubTemplateFile: "",
+
+	// Watch diary defaults
+	watchStatusField: "watchStatus",
+	personalRatingField: "myRating",
+	watchedDatesField: "watched",
+	rewatchCountField: "rewatches",
 
 	// Image defaults
 	imagesFolder: "attachments/kinopoisk",
@@ -57,15 +374,31 @@ export const DEFAULT_SETTINGS: ObsidianKinopoiskPluginSettings = {
 	savePosterImage: true,
 	saveCoverImage: false,
 	saveLogoImage: false,
+
+	// Response cache defaults
+	cacheEnabled: true,
+	cacheSearchTtlHours: 24,
+	cacheMovieTtlHours: 168,
+	cacheMaxEntries: 500,
+
+	// Request queue defaults
+	requestsPerSecond: 3,
+	maxRetries: 3,
+
+	// Daily quota defaults (free kinopoisk.dev plan)
+	dailyRequestLimit: 200,
+	quotaWarningThreshold: 20,
+
+	// Offline fixture defaults
+	fixtureFolder: DEFAULT_FIXTURE_FOLDER,
+	fixtureRecord: false,
 };
 
 export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 	private validationTimeout: NodeJS.Timeout | null = null;
-	private kinopoiskProvider: KinopoiskProvider;
 
 	constructor(app: App, private plugin: ObsidianKinopoiskPlugin) {
 		super(app, plugin);
-		this.kinopoiskProvider = new KinopoiskProvider();
 
 		// Set language from settings on creation
 		setLanguage(this.plugin.settings.language);
@@ -87,6 +420,7 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 	 */
 	private updateTokenValidationIndicator(
 		inputElement: HTMLInputElement,
+		token: string,
 		isValid: boolean | null
 	): void {
 		if (!inputElement) return;
@@ -99,7 +433,7 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 		);
 
 		// Add appropriate class
-		if (this.plugin.settings.apiToken.trim() !== "") {
+		if (token.trim() !== "") {
 			if (isValid === null) {
 				inputElement.addClass("kinopoisk-plugin__token-checking");
 			} else if (isValid) {
@@ -115,7 +449,8 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 	 */
 	private async validateTokenWithDelay(
 		token: string,
-		inputElement: HTMLInputElement
+		inputElement: HTMLInputElement,
+		providerId: ProviderId
 	): Promise<void> {
 		// Cancel previous validation
 		if (this.validationTimeout) {
@@ -123,25 +458,41 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 		}
 
 		// Show checking state
-		this.updateTokenValidationIndicator(inputElement, null);
+		this.updateTokenValidationIndicator(inputElement, token, null);
+
+		const tokenValid = PROVIDER_TOKEN_SETTINGS[providerId]?.tokenValid;
+		if (!tokenValid) return;
 
 		this.validationTimeout = setTimeout(async () => {
 			try {
-				const isValid = await this.kinopoiskProvider.validateToken(
-					token
-				);
-				this.plugin.settings.apiTokenValid = isValid;
+				const isValid = await this.plugin.providers[
+					providerId
+				].validateToken(token);
+				this.plugin.settings[tokenValid] = isValid;
 				await this.plugin.saveSettings();
-				this.updateTokenValidationIndicator(inputElement, isValid);
+				this.updateTokenValidationIndicator(
+					inputElement,
+					token,
+					isValid
+				);
 			} catch (error) {
 				console.error("Token validation error:", error);
-				this.plugin.settings.apiTokenValid = false;
+				this.plugin.settings[tokenValid] = false;
 				await this.plugin.saveSettings();
-				this.updateTokenValidationIndicator(inputElement, false);
+				this.updateTokenValidationIndicator(inputElement, token, false);
 			}
 		}, 1500);
 	}
 
+	/**
+	 * Whether fixture folder is set, shows notice when it is blank
+	 */
+	private hasFixtureFolder(): boolean {
+		if (this.plugin.settings.fixtureFolder.trim()) return true;
+		new Notice(t("settings.fixtureFolderRequired"));
+		return false;
+	}
+
 	/**
 	 * Create folder selection setting
 	 */
@@ -177,9 +528,10 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 		desc: DocumentFragment,
 		placeholder: string,
 		currentValue: string,
-		onValueChange: (value: string) => void
+		onValueChange: (value: string) => void,
+		onPreview?: () => void
 	): void {
-		new Setting(containerEl)
+		const setting = new Setting(containerEl)
 			.setName(name)
 			.setDesc(desc)
 			.addSearch((cb) => {
@@ -192,64 +544,172 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 					.setValue(currentValue)
 					.onChange(onValueChange);
 			});
+
+		// Preview renders movie samples, other templates have no button
+		if (onPreview) {
+			setting.addButton((btn) =>
+				btn
+					.setButtonText(t("settings.previewTemplate"))
+					.onClick(onPreview)
+			);
+		}
 	}
 
-	display(): void {
-		const { containerEl } = this;
+	/**
+	 * Create setting for frontmatter keys left without value
+	 */
+	private createEmptyValuesSetting(
+		containerEl: HTMLElement,
+		currentValue: EmptyValuePolicy,
+		onValueChange: (value: EmptyValuePolicy) => void
+	): void {
+		new Setting(containerEl)
+			.setName(t("settings.emptyValues"))
+			.setDesc(t("settings.emptyValuesDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("empty", t("settings.emptyValuesEmpty"))
+					.addOption("remove", t("settings.emptyValuesRemove"))
+					.addOption("null", t("settings.emptyValuesNull"))
+					.setValue(currentValue)
+					.onChange((value: EmptyValuePolicy) => onValueChange(value))
+			);
+	}
 
-		containerEl.empty();
-		containerEl.classList.add("obsidian-kinopoisk-plugin__settings");
+	/**
+	 * Create section with file name, folder and template of content type
+	 */
+	private createContentTypeSettings(
+		containerEl: HTMLElement,
+		type: ContentType
+	): void {
+		const keys = CONTENT_TYPE_SETTINGS[type];
 
-		// Language setting (first setting)
-		new Setting(containerEl)
-			.setName(t("settings.language"))
-			.setDesc(t("settings.languageDesc"))
-			.addDropdown((dropdown) => {
-				const languages = getSupportedLanguages();
-				languages.forEach((lang) => {
-					dropdown.addOption(lang.code, lang.name);
-				});
+		new Setting(containerEl).setName(t(keys.heading)).setHeading();
 
-				dropdown
-					.setValue(this.plugin.settings.language)
-					.onChange(async (value: SupportedLanguage) => {
-						this.plugin.settings.language = value;
-						setLanguage(value);
+		new Setting(containerEl)
+			.setName(t("settings.typeFileName"))
+			.setDesc(t("settings.typeFileNameDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(t("settings.movieFileNamePlaceholder"))
+					.setValue(this.plugin.settings[keys.fileNameFormat])
+					.onChange(async (value) => {
+						this.plugin.settings[keys.fileNameFormat] = value;
 						await this.plugin.saveSettings();
-						// Redraw settings with new language
-						this.display();
-					});
+					})
+			);
+
+		this.createFolderSetting(
+			containerEl,
+			t("settings.typeFileLocation"),
+			t("settings.typeFileLocationDesc"),
+			t("settings.movieFileLocationPlaceholder"),
+			this.plugin.settings[keys.folder],
+			async (folder) => {
+				this.plugin.settings[keys.folder] = folder;
+				await this.plugin.saveSettings();
+			}
+		);
+
+		const templateFileDesc = document.createDocumentFragment();
+		templateFileDesc.createDiv({
+			text: t("settings.typeTemplateFileDesc"),
+		});
+
+		this.createTemplateSetting(
+			containerEl,
+			t("settings.typeTemplateFile"),
+			templateFileDesc,
+			t("settings.movieTemplateFilePlaceholder"),
+			this.plugin.settings[keys.templateFile],
+			async (file) => {
+				this.plugin.settings[keys.templateFile] = file;
+				await this.plugin.saveSettings();
+			},
+			() => {
+				const { movieTemplateFile, seriesTemplateFile } =
+					this.plugin.settings;
+				const fallbackFile = keys.isSeries
+					? seriesTemplateFile
+					: movieTemplateFile;
+				new TemplatePreviewModal(
+					this.plugin,
+					this.plugin.settings[keys.templateFile] || fallbackFile,
+					keys.isSeries
+				).open();
+			}
+		);
+	}
+
+	/**
+	 * Create numeric input setting, ignores values below minimum
+	 */
+	private createNumberSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		currentValue: number,
+		minValue: number,
+		onValueChange: (value: number) => void
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.setValue(String(currentValue)).onChange((value) => {
+					const parsed = Number(value);
+					if (Number.isFinite(parsed) && parsed >= minValue) {
+						onValueChange(parsed);
+					}
+				});
 			});
+	}
+
+	/**
+	 * Create API token setting of provider, description key
+	 * replaces provider's token description when set
+	 */
+	private createTokenSetting(
+		containerEl: HTMLElement,
+		providerId: ProviderId,
+		descKey?: string
+	): void {
+		const tokenSettings = PROVIDER_TOKEN_SETTINGS[providerId];
+		if (!tokenSettings) return;
+
+		const { token: tokenKey, tokenValid } = tokenSettings;
 
-		// API token setting
 		const apiKeyDesc = document.createDocumentFragment();
 		apiKeyDesc.createDiv({
-			text: t("settings.apiTokenDesc"),
+			text: t(descKey ?? tokenSettings.tokenDesc),
 		});
 		apiKeyDesc.createEl("a", {
 			text: t("settings.getApiToken"),
-			href: apiSite,
+			href: tokenSettings.site,
 		});
 
 		let tokenInputElement: HTMLInputElement;
 
 		new Setting(containerEl)
-			.setName(t("settings.apiToken"))
+			.setName(t(tokenSettings.tokenName))
 			.setDesc(apiKeyDesc)
 			.addText((text) => {
 				const textComponent = text
 					.setPlaceholder(t("settings.enterToken"))
-					.setValue(this.plugin.settings.apiToken)
+					.setValue(this.plugin.settings[tokenKey])
 					.onChange(async (value) => {
-						this.plugin.settings.apiToken = value.trim();
-						this.plugin.settings.apiTokenValid = false;
+						this.plugin.settings[tokenKey] = value.trim();
+						this.plugin.settings[tokenValid] = false;
 						await this.plugin.saveSettings();
 
 						// Automatic token validation with delay
 						if (value.trim() !== "") {
 							await this.validateTokenWithDelay(
 								value.trim(),
-								textComponent.inputEl
+								textComponent.inputEl,
+								providerId
 							);
 						} else {
 							// Cancel validation if token is empty and reset indicator
@@ -259,6 +719,7 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 							}
 							this.updateTokenValidationIndicator(
 								textComponent.inputEl,
+								"",
 								false
 							);
 						}
@@ -267,10 +728,11 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 				tokenInputElement = textComponent.inputEl;
 
 				// Show current token status on load
-				if (this.plugin.settings.apiToken.trim() !== "") {
+				if (this.plugin.settings[tokenKey].trim() !== "") {
 					this.updateTokenValidationIndicator(
 						textComponent.inputEl,
-						this.plugin.settings.apiTokenValid
+						this.plugin.settings[tokenKey],
+						this.plugin.settings[tokenValid]
 					);
 				}
 
@@ -281,7 +743,7 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 					.setButtonText(t("settings.checkToken"))
 					.setCta()
 					.onClick(async () => {
-						const token = this.plugin.settings.apiToken.trim();
+						const token = this.plugin.settings[tokenKey].trim();
 						if (!token) {
 							new Notice(t("settings.enterToken"));
 							return;
@@ -292,15 +754,15 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 
 						try {
 							new Notice(t("settings.checking"));
-							const isValid =
-								await this.kinopoiskProvider.validateToken(
-									token
-								);
-							this.plugin.settings.apiTokenValid = isValid;
+							const isValid = await this.plugin.providers[
+								providerId
+							].validateToken(token);
+							this.plugin.settings[tokenValid] = isValid;
 							await this.plugin.saveSettings();
 
 							this.updateTokenValidationIndicator(
 								tokenInputElement,
+								token,
 								isValid
 							);
 
@@ -314,10 +776,11 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 								"Manual token validation error:",
 								error
 							);
-							this.plugin.settings.apiTokenValid = false;
+							this.plugin.settings[tokenValid] = false;
 							await this.plugin.saveSettings();
 							this.updateTokenValidationIndicator(
 								tokenInputElement,
+								token,
 								false
 							);
 							new Notice(t("settings.tokenError"));
@@ -327,6 +790,225 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 						}
 					})
 			);
+	}
+
+	display(): void {
+		const { containerEl } = this;
+
+		containerEl.empty();
+		containerEl.classList.add("obsidian-kinopoisk-plugin__settings");
+
+		// Language setting (first setting)
+		new Setting(containerEl)
+			.setName(t("settings.language"))
+			.setDesc(t("settings.languageDesc"))
+			.addDropdown((dropdown) => {
+				const languages = getSupportedLanguages();
+				languages.forEach((lang) => {
+					dropdown.addOption(lang.code, lang.name);
+				});
+
+				dropdown
+					.setValue(this.plugin.settings.language)
+					.onChange(async (value: SupportedLanguage) => {
+						this.plugin.settings.language = value;
+						setLanguage(value);
+						await this.plugin.saveSettings();
+						// Redraw settings with new language
+						this.display();
+					});
+			});
+
+		// Data source setting
+		new Setting(containerEl)
+			.setName(t("settings.provider"))
+			.setDesc(t("settings.providerDesc"))
+			.addDropdown((dropdown) => {
+				for (const [id, name] of Object.entries(PROVIDER_NAMES)) {
+					dropdown.addOption(id, name);
+				}
+
+				dropdown
+					.setValue(this.plugin.settings.provider)
+					.onChange(async (value: ProviderId) => {
+						if (value === "fixture" && !this.hasFixtureFolder()) {
+							dropdown.setValue(this.plugin.settings.provider);
+							return;
+						}
+						this.plugin.settings.provider = value;
+						await this.plugin.saveSettings();
+						// Redraw to show token of selected provider
+						this.display();
+					});
+			});
+
+		this.createTokenSetting(containerEl, this.settings.provider);
+		// Refresh, franchise notes and import links use Kinopoisk IDs
+		if (!usesKinopoiskIds(this.settings.provider)) {
+			this.createTokenSetting(
+				containerEl,
+				"kinopoisk",
+				"settings.kinopoiskIdsTokenDesc"
+			);
+		}
+
+		// Request queue settings section
+		new Setting(containerEl)
+			.setName(t("settings.requestsHeading"))
+			.setHeading();
+
+		this.createNumberSetting(
+			containerEl,
+			t("settings.requestsPerSecond"),
+			t("settings.requestsPerSecondDesc"),
+			this.plugin.settings.requestsPerSecond,
+			0,
+			async (value) => {
+				this.plugin.settings.requestsPerSecond = value;
+				await this.plugin.saveSettings();
+			}
+		);
+
+		this.createNumberSetting(
+			containerEl,
+			t("settings.maxRetries"),
+			t("settings.maxRetriesDesc"),
+			this.plugin.settings.maxRetries,
+			0,
+			async (value) => {
+				this.plugin.settings.maxRetries = Math.floor(value);
+				await this.plugin.saveSettings();
+			}
+		);
+
+		this.createNumberSetting(
+			containerEl,
+			t("settings.dailyRequestLimit"),
+			t("settings.dailyRequestLimitDesc"),
+			this.plugin.settings.dailyRequestLimit,
+			0,
+			async (value) => {
+				this.plugin.settings.dailyRequestLimit = Math.floor(value);
+				await this.plugin.saveSettings();
+			}
+		);
+
+		this.createNumberSetting(
+			containerEl,
+			t("settings.quotaWarningThreshold"),
+			t("settings.quotaWarningThresholdDesc"),
+			this.plugin.settings.quotaWarningThreshold,
+			0,
+			async (value) => {
+				this.plugin.settings.quotaWarningThreshold = Math.floor(value);
+				await this.plugin.saveSettings();
+			}
+		);
+
+		// Cache settings section
+		new Setting(containerEl)
+			.setName(t("settings.cacheHeading"))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.cacheEnabled"))
+			.setDesc(t("settings.cacheEnabledDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.cacheEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.cacheEnabled = value;
+						await this.plugin.saveSettings();
+						this.display(); // Redraw to show/hide dependent settings
+					})
+			);
+
+		if (this.plugin.settings.cacheEnabled) {
+			this.createNumberSetting(
+				containerEl,
+				t("settings.cacheSearchTtl"),
+				t("settings.cacheSearchTtlDesc"),
+				this.plugin.settings.cacheSearchTtlHours,
+				0,
+				async (value) => {
+					this.plugin.settings.cacheSearchTtlHours = value;
+					await this.plugin.saveSettings();
+				}
+			);
+
+			this.createNumberSetting(
+				containerEl,
+				t("settings.cacheMovieTtl"),
+				t("settings.cacheMovieTtlDesc"),
+				this.plugin.settings.cacheMovieTtlHours,
+				0,
+				async (value) => {
+					this.plugin.settings.cacheMovieTtlHours = value;
+					await this.plugin.saveSettings();
+				}
+			);
+
+			this.createNumberSetting(
+				containerEl,
+				t("settings.cacheMaxEntries"),
+				t("settings.cacheMaxEntriesDesc"),
+				this.plugin.settings.cacheMaxEntries,
+				1,
+				async (value) => {
+					this.plugin.settings.cacheMaxEntries = Math.floor(value);
+					await this.plugin.saveSettings();
+				}
+			);
+		}
+
+		new Setting(containerEl)
+			.setName(t("settings.clearCache"))
+			.setDesc(
+				tWithParams("settings.clearCacheDesc", {
+					count: this.plugin.responseCache.size,
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(t("settings.clearCache"))
+					.onClick(async () => {
+						await this.plugin.clearResponseCache();
+						this.display();
+					})
+			);
+
+		// Offline fixtures section
+		new Setting(containerEl)
+			.setName(t("settings.fixturesHeading"))
+			.setHeading();
+
+		this.createFolderSetting(
+			containerEl,
+			t("settings.fixtureFolder"),
+			t("settings.fixtureFolderDesc"),
+			DEFAULT_SETTINGS.fixtureFolder,
+			this.plugin.settings.fixtureFolder,
+			async (folder) => {
+				this.plugin.settings.fixtureFolder = folder;
+				await this.plugin.saveSettings();
+			}
+		);
+
+		new Setting(containerEl)
+			.setName(t("settings.fixtureRecord"))
+			.setDesc(t("settings.fixtureRecordDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.fixtureRecord)
+					.onChange(async (value) => {
+						if (value && !this.hasFixtureFolder()) {
+							toggle.setValue(false);
+							return;
+						}
+						this.plugin.settings.fixtureRecord = value;
+						await this.plugin.saveSettings();
+					})
+			);
 
 		// Images settings section
 		new Setting(containerEl)
@@ -445,6 +1127,21 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 			async (file) => {
 				this.plugin.settings.movieTemplateFile = file;
 				await this.plugin.saveSettings();
+			},
+			() =>
+				new TemplatePreviewModal(
+					this.plugin,
+					this.plugin.settings.movieTemplateFile,
+					false
+				).open()
+		);
+
+		this.createEmptyValuesSetting(
+			containerEl,
+			this.plugin.settings.movieEmptyValues,
+			async (value) => {
+				this.plugin.settings.movieEmptyValues = value;
+				await this.plugin.saveSettings();
 			}
 		);
 
@@ -496,7 +1193,199 @@ export class ObsidianKinopoiskSettingTab extends PluginSettingTab {
 			async (file) => {
 				this.plugin.settings.seriesTemplateFile = file;
 				await this.plugin.saveSettings();
+			},
+			() =>
+				new TemplatePreviewModal(
+					this.plugin,
+					this.plugin.settings.seriesTemplateFile,
+					true
+				).open()
+		);
+
+		this.createEmptyValuesSetting(
+			containerEl,
+			this.plugin.settings.seriesEmptyValues,
+			async (value) => {
+				this.plugin.settings.seriesEmptyValues = value;
+				await this.plugin.saveSettings();
 			}
 		);
+
+		// Content type sections
+		for (const type of Object.keys(
+			CONTENT_TYPE_SETTINGS
+		) as ContentType[]) {
+			this.createContentTypeSettings(containerEl, type);
+		}
+
+		// People settings section
+		new Setting(containerEl)
+			.setName(t("settings.peopleHeading"))
+			.setDesc(t("settings.peopleDesc"))
+			.setHeading();
+
+		for (const profession of Object.keys(
+			PEOPLE_LIMIT_SETTINGS
+		) as PersonProfession[]) {
+			const key = PEOPLE_LIMIT_SETTINGS[profession];
+			this.createNumberSetting(
+				containerEl,
+				t(`settings.professions.${profession}`),
+				t("settings.peopleLimitDesc"),
+				this.plugin.settings[key],
+				0,
+				async (value) => {
+					this.plugin.settings[key] = Math.floor(value);
+					await this.plugin.saveSettings();
+				}
+			);
+		}
+
+		// Person notes settings section
+		new Setting(containerEl)
+			.setName(t("settings.personNotesHeading"))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.personNotesEnabled"))
+			.setDesc(t("settings.personNotesEnabledDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.personNotesEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.personNotesEnabled = value;
+						await this.plugin.saveSettings();
+						this.display(); // Redraw to show/hide dependent settings
+					})
+			);
+
+		if (this.plugin.settings.personNotesEnabled) {
+			this.createFolderSetting(
+				containerEl,
+				t("settings.personNotesFolder"),
+				t("settings.personNotesFolderDesc"),
+				t("settings.personNotesFolderPlaceholder"),
+				this.plugin.settings.personNotesFolder,
+				async (folder) => {
+					this.plugin.settings.personNotesFolder = folder;
+					await this.plugin.saveSettings();
+				}
+			);
+
+			const personTemplateFileDesc = document.createDocumentFragment();
+			personTemplateFileDesc.createDiv({
+				text: t("settings.personTemplateFileDesc"),
+			});
+			personTemplateFileDesc.createEl("a", {
+				text: t("settings.personTemplateExample"),
+				href: `${docUrl}#person-notes`,
+			});
+
+			this.createTemplateSetting(
+				containerEl,
+				t("settings.personTemplateFile"),
+				personTemplateFileDesc,
+				t("settings.movieTemplateFilePlaceholder"),
+				this.plugin.settings.personTemplateFile,
+				async (file) => {
+					this.plugin.settings.personTemplateFile = file;
+					await this.plugin.saveSettings();
+				}
+			);
+
+			this.createNumberSetting(
+				containerEl,
+				t("settings.personNotesLimit"),
+				t("settings.personNotesLimitDesc"),
+				this.plugin.settings.personNotesLimit,
+				0,
+				async (value) => {
+					this.plugin.settings.personNotesLimit = Math.floor(value);
+					await this.plugin.saveSettings();
+				}
+			);
+		}
+
+		// Hub notes settings section
+		new Setting(containerEl)
+			.setName(t("settings.hubNotesHeading"))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.hubNotesEnabled"))
+			.setDesc(t("settings.hubNotesEnabledDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.hubNotesEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.hubNotesEnabled = value;
+						await this.plugin.saveSettings();
+						this.display(); // Redraw to show/hide dependent settings
+					})
+			);
+
+		if (this.plugin.settings.hubNotesEnabled) {
+			for (const kind of Object.keys(HUB_NOTE_SETTINGS) as HubKind[]) {
+				const keys = HUB_NOTE_SETTINGS[kind];
+				const kindName = t(keys.name);
+
+				this.createFolderSetting(
+					containerEl,
+					tWithParams("settings.hubFolder", { kind: kindName }),
+					t("settings.hubFolderDesc"),
+					t("settings.hubFolderPlaceholder"),
+					this.plugin.settings[keys.folder],
+					async (folder) => {
+						this.plugin.settings[keys.folder] = folder;
+						await this.plugin.saveSettings();
+					}
+				);
+
+				const hubTemplateFileDesc = document.createDocumentFragment();
+				hubTemplateFileDesc.createDiv({
+					text: t("settings.hubTemplateFileDesc"),
+				});
+				hubTemplateFileDesc.createEl("a", {
+					text: t("settings.hubTemplateExample"),
+					href: `${docUrl}#hub-notes`,
+				});
+
+				this.createTemplateSetting(
+					containerEl,
+					tWithParams("settings.hubTemplateFile", { kind: kindName }),
+					hubTemplateFileDesc,
+					t("settings.movieTemplateFilePlaceholder"),
+					this.plugin.settings[keys.templateFile],
+					async (file) => {
+						this.plugin.settings[keys.templateFile] = file;
+						await this.plugin.saveSettings();
+					}
+				);
+			}
+		}
+
+		// Watch diary settings section
+		new Setting(containerEl)
+			.setName(t("settings.watchDiaryHeading"))
+			.setDesc(t("settings.watchDiaryDesc"))
+			.setHeading();
+
+		for (const field of Object.keys(WATCH_FIELD_SETTINGS) as WatchField[]) {
+			const key = WATCH_FIELD_SETTINGS[field];
+			new Setting(containerEl)
+				.setName(t(`settings.watchFields.${field}`))
+				.setDesc(t("settings.watchFieldDesc"))
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS[key])
+						.setValue(this.plugin.settings[key])
+						.onChange(async (value) => {
+							// Empty key falls back to default name
+							this.plugin.settings[key] =
+								value.trim() || DEFAULT_SETTINGS[key];
+							await this.plugin.saveSettings();
+						})
+				);
+		}
 	}
 }
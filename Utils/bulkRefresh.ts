@@ -0,0 +1,378 @@
+/**
+ * bulkRefresh.ts
+ *
+ * Refreshes template-generated properties of all notes in chosen folders.
+ * Progress is stored in the plugin folder, so an interrupted run continues
+ * after restart. Run pauses when Kinopoisk daily quota is exhausted.
+ */
+
+import { normalizePath, Notice, TFile } from "obsidian";
+import { PROVIDER_TOKEN_SETTINGS } from "Settings/settings";
+import { MetadataProvider } from "APIProvider/MetadataProvider";
+import {
+	applyFrontmatterChanges,
+	findKinopoiskId,
+} from "Utils/frontmatterUpdate";
+import { readJsonFile, writeJsonFile } from "Utils/pluginStorage";
+import ObsidianKinopoiskPlugin from "main";
+import { t, tWithParams } from "../i18n";
+
+const JOB_FILE_VERSION = 1;
+
+type NoteResult = "updated" | "unchanged" | "skipped";
+
+interface FailedNote {
+	path: string;
+	error: string;
+}
+
+/**
+ * Saved state of bulk refresh run
+ */
+interface RefreshJob {
+	version: number;
+	folders: string[];
+	startedAt: number;
+	total: number;
+	pending: string[]; // Note paths left to refresh
+	updated: string[];
+	unchanged: number;
+	failed: FailedNote[];
+	skipped: string[]; // Notes without Kinopoisk ID
+}
+
+function isInFolder(path: string, folder: string): boolean {
+	const normalized = normalizePath(folder);
+	return normalized === "/" || path.startsWith(`${normalized}/`);
+}
+
+function formatTimestamp(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (value: number) => `0${value}`.slice(-2);
+	return (
+		`${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+			date.getDate()
+		)}` + ` ${pad(date.getHours())}-${pad(date.getMinutes())}`
+	);
+}
+
+function toLink(path: string): string {
+	return `[[${path.replace(/\.md$/, "")}]]`;
+}
+
+export class BulkRefresher {
+	private job: RefreshJob | null = null;
+	private running = false;
+	private stopRequested = false;
+	private progressNotice?: Notice;
+
+	constructor(
+		private plugin: ObsidianKinopoiskPlugin,
+		private filePath: string
+	) {}
+
+	/**
+	 * Loads unfinished run from disk
+	 */
+	async load(): Promise<void> {
+		const job = await readJsonFile<RefreshJob | null>(
+			this.plugin.app.vault.adapter,
+			this.filePath,
+			null
+		);
+		this.job = job && job.version === JOB_FILE_VERSION ? job : null;
+	}
+
+	get isRunning(): boolean {
+		return this.running;
+	}
+
+	/**
+	 * Number of notes left in unfinished run, 0 when there is none
+	 */
+	get pendingCount(): number {
+		return this.job?.pending.length ?? 0;
+	}
+
+	/**
+	 * Starts new run over notes in folders (empty folder means whole vault)
+	 */
+	async start(folders: string[]): Promise<void> {
+		if (this.running) {
+			new Notice(t("bulkRefresh.alreadyRunning"));
+			return;
+		}
+
+		const files = this.plugin.app.vault
+			.getMarkdownFiles()
+			.filter((file) =>
+				folders.some((folder) => isInFolder(file.path, folder || "/"))
+			);
+		const pending: string[] = [];
+		const skipped: string[] = [];
+		for (const file of files) {
+			if (this.getKinopoiskId(file)) {
+				pending.push(file.path);
+			} else {
+				skipped.push(file.path);
+			}
+		}
+
+		if (pending.length === 0) {
+			new Notice(
+				tWithParams("bulkRefresh.nothingToRefresh", {
+					folders: folders.map((folder) => folder || "/").join(", "),
+				})
+			);
+			return;
+		}
+
+		this.job = {
+			version: JOB_FILE_VERSION,
+			folders,
+			startedAt: Date.now(),
+			total: pending.length,
+			pending,
+			updated: [],
+			unchanged: 0,
+			failed: [],
+			skipped,
+		};
+		await this.save();
+		await this.run();
+	}
+
+	/**
+	 * Continues unfinished run
+	 */
+	async resume(): Promise<void> {
+		if (this.running) {
+			new Notice(t("bulkRefresh.alreadyRunning"));
+			return;
+		}
+		if (!this.job) {
+			return;
+		}
+
+		new Notice(
+			tWithParams("bulkRefresh.resuming", { count: this.pendingCount })
+		);
+		await this.run();
+	}
+
+	/**
+	 * Pauses run after current note, progress is kept for resume
+	 */
+	stop(): void {
+		if (!this.running) {
+			new Notice(t("bulkRefresh.notRunning"));
+			return;
+		}
+		this.stopRequested = true;
+	}
+
+	/**
+	 * Refreshes pending notes one by one, requests go through plugin queue
+	 */
+	private async run(): Promise<void> {
+		const job = this.job;
+		if (!job) return;
+
+		// Notes are found by Kinopoisk ID whatever source is selected
+		const provider = this.plugin.kinopoiskIdProvider;
+		const token = this.plugin.getProviderToken(provider);
+		if (PROVIDER_TOKEN_SETTINGS[provider.id] && !token.trim()) {
+			new Notice(t("provider.tokenRequired"));
+			return;
+		}
+
+		this.running = true;
+		this.stopRequested = false;
+
+		try {
+			while (job.pending.length > 0) {
+				if (this.stopRequested) {
+					new Notice(
+						tWithParams("bulkRefresh.stopped", {
+							count: job.pending.length,
+						})
+					);
+					return;
+				}
+				if (this.isQuotaExhausted()) {
+					new Notice(
+						tWithParams("bulkRefresh.quotaExhausted", {
+							count: job.pending.length,
+						}),
+						0
+					);
+					return;
+				}
+
+				this.updateProgress(job);
+				const path = job.pending[0];
+
+				try {
+					const result = await this.refreshNote(
+						path,
+						provider,
+						token
+					);
+					if (result === "updated") job.updated.push(path);
+					if (result === "unchanged") job.unchanged++;
+					if (result === "skipped") job.skipped.push(path);
+				} catch (error) {
+					// Note stays pending when request was refused due to quota
+					if (this.isQuotaExhausted()) continue;
+
+					const message =
+						error instanceof Error ? error.message : String(error);
+					job.failed.push({ path, error: message });
+				}
+
+				job.pending.shift();
+				await this.save();
+			}
+
+			await this.finish(job);
+		} finally {
+			this.running = false;
+			this.progressNotice?.hide();
+			this.progressNotice = undefined;
+		}
+	}
+
+	/**
+	 * Fetches fresh data for note and writes changed properties
+	 */
+	private async refreshNote(
+		path: string,
+		provider: MetadataProvider,
+		token: string
+	): Promise<NoteResult> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			return "skipped";
+		}
+
+		// ID may have been removed since run started
+		const kinopoiskId = this.getKinopoiskId(file);
+		if (!kinopoiskId) {
+			return "skipped";
+		}
+
+		// Fresh details, run would also push other entries out of cache
+		const movieShow = await provider.lookup(
+			{ source: "kinopoisk", id: kinopoiskId },
+			token,
+			{ useCache: false }
+		);
+		const changes = await this.plugin.getNoteChanges(file, movieShow);
+		if (changes.length === 0) {
+			return "unchanged";
+		}
+
+		await this.plugin.app.vault.process(file, (content) =>
+			applyFrontmatterChanges(content, changes)
+		);
+		return "updated";
+	}
+
+	/**
+	 * Writes report note, removes saved state and opens report
+	 */
+	private async finish(job: RefreshJob): Promise<void> {
+		const counts = {
+			updated: job.updated.length,
+			unchanged: job.unchanged,
+			failed: job.failed.length,
+			skipped: job.skipped.length,
+		};
+		const finishedAt = Date.now();
+
+		const lines = [
+			`# ${t("bulkRefresh.reportTitle")}`,
+			"",
+			`- ${t("bulkRefresh.reportFolders")}: ${job.folders
+				.map((folder) => folder || "/")
+				.join(", ")}`,
+			`- ${t("bulkRefresh.reportStarted")}: ${formatTimestamp(
+				job.startedAt
+			)}`,
+			`- ${t("bulkRefresh.reportFinished")}: ${formatTimestamp(
+				finishedAt
+			)}`,
+			`- ${tWithParams("bulkRefresh.summary", counts)}`,
+		];
+		const addSection = (title: string, items: string[]) => {
+			if (items.length > 0) {
+				lines.push("", `## ${title}`, "", ...items);
+			}
+		};
+		addSection(
+			t("bulkRefresh.reportUpdated"),
+			job.updated.map((path) => `- ${toLink(path)}`)
+		);
+		addSection(
+			t("bulkRefresh.reportFailed"),
+			job.failed.map(({ path, error }) => `- ${toLink(path)}: ${error}`)
+		);
+		addSection(
+			t("bulkRefresh.reportSkipped"),
+			job.skipped.map((path) => `- ${toLink(path)}`)
+		);
+
+		const { vault, workspace } = this.plugin.app;
+		const reportPath = normalizePath(
+			`${t("bulkRefresh.reportFileName")} ${formatTimestamp(
+				finishedAt
+			)}.md`
+		);
+		const report = vault.getAbstractFileByPath(reportPath)
+			? null
+			: await vault.create(reportPath, lines.join("\n"));
+
+		this.job = null;
+		await this.plugin.app.vault.adapter.remove(this.filePath);
+
+		new Notice(tWithParams("bulkRefresh.summary", counts));
+		if (report) {
+			await workspace.getLeaf(true).openFile(report);
+		}
+	}
+
+	private getKinopoiskId(file: TFile): number | null {
+		return findKinopoiskId(
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter
+		);
+	}
+
+	// Quota is tracked for kinopoisk.dev only
+	private isQuotaExhausted(): boolean {
+		return (
+			this.plugin.kinopoiskIdProvider.id === "kinopoisk" &&
+			this.plugin.quotaTracker.getStatus().isExhausted
+		);
+	}
+
+	private updateProgress(job: RefreshJob): void {
+		const message = tWithParams("bulkRefresh.progress", {
+			current: job.total - job.pending.length + 1,
+			total: job.total,
+		});
+
+		if (this.progressNotice) {
+			this.progressNotice.setMessage(message);
+		} else {
+			this.progressNotice = new Notice(message, 0);
+		}
+	}
+
+	private async save(): Promise<void> {
+		await writeJsonFile(
+			this.plugin.app.vault.adapter,
+			this.filePath,
+			this.job
+		);
+	}
+}
@@ -0,0 +1,132 @@
+/**
+ * franchiseNotes.ts
+ *
+ * Creates franchise note of a movie with its sequels and prequels
+ * in chronological order. Titles without note in vault get an import link
+ * handled by the plugin's obsidian:// protocol handler.
+ */
+
+import { normalizePath, TFile } from "obsidian";
+import { MovieShow } from "Models/MovieShow.model";
+import { replaceIllegalFileNameCharactersInString } from "Utils/utils";
+import ObsidianKinopoiskPlugin from "main";
+import { t, tWithParams } from "../i18n";
+
+export const IMPORT_PROTOCOL_ACTION = "kinopoisk-import";
+
+/**
+ * Title of franchise with data shown in its list item
+ */
+interface FranchiseTitle {
+	id: number; // Kinopoisk ID, 0 when unknown
+	name: string;
+	year: number; // 0 when unknown
+	type: string;
+	rating: number;
+}
+
+/**
+ * Movie itself and its sequels and prequels, by year.
+ * Titles without year go last in order of API response.
+ */
+function getFranchiseTitles(movieShow: MovieShow): FranchiseTitle[] {
+	const titles: FranchiseTitle[] = [
+		{
+			id: movieShow.id,
+			name: movieShow.name[0] || movieShow.nameForFile,
+			year: movieShow.year,
+			type: movieShow.type[0] || "",
+			rating: movieShow.ratingKp,
+		},
+	];
+
+	movieShow.sequelsAndPrequels.forEach((name, index) => {
+		const id = movieShow.sequelsAndPrequelsIds[index] || 0;
+		if (id > 0 && titles.some((title) => title.id === id)) return;
+
+		titles.push({
+			id,
+			name,
+			year: movieShow.sequelsAndPrequelsYears[index] || 0,
+			type: movieShow.sequelsAndPrequelsTypes[index] || "",
+			rating: movieShow.sequelsAndPrequelsRatings[index] || 0,
+		});
+	});
+
+	return titles
+		.map((title, index) => ({ title, index }))
+		.sort(
+			(a, b) =>
+				(a.title.year || Infinity) - (b.title.year || Infinity) ||
+				a.index - b.index
+		)
+		.map(({ title }) => title);
+}
+
+export class FranchiseNoteWriter {
+	constructor(private plugin: ObsidianKinopoiskPlugin) {}
+
+	get app() {
+		return this.plugin.app;
+	}
+
+	/**
+	 * Writes franchise note next to movie note, existing franchise
+	 * note is regenerated. Returns null when movie has no related titles.
+	 */
+	async write(movieShow: MovieShow, movieFile: TFile): Promise<TFile | null> {
+		if (movieShow.sequelsAndPrequels.length === 0) return null;
+
+		const name = tWithParams("franchise.fileName", {
+			name: movieShow.nameForFile,
+		});
+		const content = [
+			`# ${name}`,
+			"",
+			...getFranchiseTitles(movieShow).map((title) =>
+				this.formatTitle(title)
+			),
+			"",
+		].join("\n");
+
+		const folder = movieFile.parent?.path ?? "/";
+		const fileName = `${replaceIllegalFileNameCharactersInString(name)}.md`;
+		const filePath = normalizePath(
+			folder === "/" ? fileName : `${folder}/${fileName}`
+		);
+
+		const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+		if (existingFile instanceof TFile) {
+			await this.app.vault.process(existingFile, () => content);
+			return existingFile;
+		}
+		return this.app.vault.create(filePath, content);
+	}
+
+	/**
+	 * Checked item links to note in vault, unchecked one has import link
+	 */
+	private formatTitle(title: FranchiseTitle): string {
+		const note =
+			title.id > 0 ? this.plugin.noteIndex.findNotes(title.id)[0] : null;
+
+		const parts = [
+			title.year > 0 ? String(title.year) : t("franchise.noYear"),
+			note ? `[[${note.basename}]]` : title.name,
+		];
+		if (title.type) parts.push(title.type);
+		if (title.rating > 0) parts.push(`★ ${title.rating.toFixed(1)}`);
+		if (!note && title.id > 0) {
+			parts.push(
+				`[${t("franchise.import")}](${this.getImportUrl(title.id)})`
+			);
+		}
+
+		return `- [${note ? "x" : " "}] ${parts.join(" · ")}`;
+	}
+
+	private getImportUrl(kinopoiskId: number): string {
+		const vault = encodeURIComponent(this.app.vault.getName());
+		return `obsidian://${IMPORT_PROTOCOL_ACTION}?vault=${vault}&id=${kinopoiskId}`;
+	}
+}
@@ -0,0 +1,323 @@
+/**
+ * frontmatterUpdate.ts
+ *
+ * Refreshes template-generated frontmatter keys of an existing note.
+ * Works on raw text so formatting of untouched keys and note body is kept.
+ */
+
+import { parseYaml } from "obsidian";
+import { parseMovieReference } from "Utils/movieReference";
+import {
+	getTemplateVariables,
+	hasTemplateExpressions,
+	removeBlockTags,
+} from "Utils/templateEngine";
+import {
+	finishYamlLine,
+	formatYamlValue,
+	YamlContext,
+} from "Utils/yamlEmitter";
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/;
+const KEY_LINE_REGEX = /^([^\s#-][^:]*):(.*)$/;
+
+// Keys that may hold Kinopoisk ID, checked in this order
+const ID_KEYS = ["kinopoiskId", "kinopoisk_id", "kpId", "id"];
+const URL_KEYS = ["kinopoiskUrl", "kinopoisk_url", "url"];
+
+// Image keys are skipped, refresh does not download images again
+const IMAGE_VARIABLE_REGEX = /^(poster|cover|logo)(Url|Markdown|Path)$/i;
+
+/**
+ * Top-level frontmatter key with its lines (key line and nested lines)
+ */
+interface FrontmatterBlock {
+	key: string; // Empty for comments before first key
+	lines: string[];
+}
+
+/**
+ * Generated key whose value differs from freshly rendered template
+ */
+export interface FrontmatterChange {
+	key: string;
+	oldValue: string;
+	newValue: string;
+	lines: string[]; // Rendered lines that replace old block
+}
+
+/**
+ * Splits frontmatter into top-level key blocks
+ */
+function parseBlocks(frontmatter: string): FrontmatterBlock[] {
+	const blocks: FrontmatterBlock[] = [];
+
+	for (const line of frontmatter.split(/\r?\n/)) {
+		const match = line.match(KEY_LINE_REGEX);
+		if (match) {
+			blocks.push({ key: match[1].trim(), lines: [line] });
+		} else if (blocks.length > 0) {
+			blocks[blocks.length - 1].lines.push(line);
+		} else {
+			blocks.push({ key: "", lines: [line] });
+		}
+	}
+
+	return blocks;
+}
+
+function getFrontmatterBlocks(content: string): FrontmatterBlock[] | null {
+	const match = content.match(FRONTMATTER_REGEX);
+	return match ? parseBlocks(match[1]) : null;
+}
+
+/**
+ * Returns block value without key, trailing empty lines are ignored
+ */
+function getBlockValue(block: FrontmatterBlock): string {
+	const [first, ...rest] = block.lines;
+	const value = first.slice(first.indexOf(":") + 1);
+	return [value, ...rest].join("\n").trim();
+}
+
+function getUniqueBlocks(
+	blocks: FrontmatterBlock[]
+): Map<string, FrontmatterBlock> {
+	const map = new Map<string, FrontmatterBlock>();
+	for (const block of blocks) {
+		if (block.key && !map.has(block.key)) {
+			map.set(block.key, block);
+		}
+	}
+	return map;
+}
+
+/**
+ * Returns Kinopoisk ID from parsed frontmatter (ID keys or Kinopoisk link)
+ */
+export function findKinopoiskId(
+	frontmatter: Record<string, unknown> | undefined
+): number | null {
+	if (!frontmatter) return null;
+
+	const getValue = (key: string): string => {
+		const value = frontmatter[key];
+		const first = Array.isArray(value) ? value[0] : value;
+		return first === undefined || first === null ? "" : String(first);
+	};
+
+	for (const key of ID_KEYS) {
+		const value = getValue(key).trim();
+		if (/^\d+$/.test(value) && Number(value) > 0) {
+			return Number(value);
+		}
+	}
+
+	for (const key of URL_KEYS) {
+		const reference = parseMovieReference(getValue(key));
+		if (reference?.source === "kinopoisk") {
+			return reference.id;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Returns frontmatter keys filled by template variables (except images),
+ * placeholders with filters and fallbacks included.
+ * Keys from all branches of block sections are included.
+ */
+export function getGeneratedFrontmatterKeys(template: string): string[] {
+	const blocks = getFrontmatterBlocks(removeBlockTags(template)) ?? [];
+
+	const keys = blocks
+		.filter((block) => {
+			const text = block.lines.join("\n");
+			return (
+				block.key !== "" &&
+				hasTemplateExpressions(text) &&
+				!getTemplateVariables(text).some((name) =>
+					IMAGE_VARIABLE_REGEX.test(name)
+				)
+			);
+		})
+		.map((block) => block.key);
+	return Array.from(new Set(keys));
+}
+
+/**
+ * Returns frontmatter keys whose value uses variable, filters included
+ */
+export function getVariableFrontmatterKeys(
+	template: string,
+	variable: string
+): string[] {
+	const blocks = getFrontmatterBlocks(removeBlockTags(template)) ?? [];
+	const variableRegex = new RegExp(`{{\\s*${variable}\\b`);
+
+	const keys = blocks
+		.filter(
+			(block) =>
+				block.key !== "" && variableRegex.test(block.lines.join("\n"))
+		)
+		.map((block) => block.key);
+	return Array.from(new Set(keys));
+}
+
+/**
+ * Compares generated keys of note with rendered template.
+ * Keys removed from note by user stay removed.
+ */
+export function getFrontmatterChanges(
+	noteContent: string,
+	renderedContent: string,
+	generatedKeys: string[]
+): FrontmatterChange[] {
+	const noteBlocks = getUniqueBlocks(getFrontmatterBlocks(noteContent) ?? []);
+	const renderedBlocks = getUniqueBlocks(
+		getFrontmatterBlocks(renderedContent) ?? []
+	);
+	const changes: FrontmatterChange[] = [];
+
+	for (const key of generatedKeys) {
+		const noteBlock = noteBlocks.get(key);
+		const renderedBlock = renderedBlocks.get(key);
+		if (!noteBlock || !renderedBlock) continue;
+
+		const oldValue = getBlockValue(noteBlock);
+		const newValue = getBlockValue(renderedBlock);
+		if (oldValue !== newValue) {
+			changes.push({
+				key,
+				oldValue,
+				newValue,
+				lines: renderedBlock.lines.filter(
+					(line, index) => index === 0 || line.trim() !== ""
+				),
+			});
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Replaces changed key blocks, other keys and note body stay as they are
+ */
+export function applyFrontmatterChanges(
+	noteContent: string,
+	changes: FrontmatterChange[]
+): string {
+	const match = noteContent.match(FRONTMATTER_REGEX);
+	if (!match) return noteContent;
+
+	const changesByKey = new Map(changes.map((change) => [change.key, change]));
+	const updatedKeys = new Set<string>();
+
+	const lines: string[] = [];
+	for (const block of parseBlocks(match[1])) {
+		const change = changesByKey.get(block.key);
+		if (!change || updatedKeys.has(block.key)) {
+			lines.push(...block.lines);
+			continue;
+		}
+
+		updatedKeys.add(block.key);
+		// Keep empty lines that separated old block from next key
+		const trailingEmpty: string[] = [];
+		for (let i = block.lines.length - 1; i > 0; i--) {
+			if (block.lines[i].trim() !== "") break;
+			trailingEmpty.push(block.lines[i]);
+		}
+		lines.push(...change.lines, ...trailingEmpty);
+	}
+
+	const newline = match[0].includes("\r\n") ? "\r\n" : "\n";
+	const frontmatter = `---${newline}${lines.join(newline)}${newline}---${
+		match[2]
+	}`;
+	return frontmatter + noteContent.slice(match[0].length);
+}
+
+/**
+ * Returns parsed frontmatter of note text, empty when missing or invalid
+ */
+export function getFrontmatterData(content: string): Record<string, unknown> {
+	const match = content.match(FRONTMATTER_REGEX);
+	if (!match) return {};
+
+	try {
+		const data = parseYaml(match[1]);
+		return data && typeof data === "object" ? data : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Writes key with value as YAML lines, lists become block lists
+ */
+function formatKeyLines(key: string, value: unknown): string[] {
+	const context: YamlContext = {
+		kind: "value",
+		prefix: `${key}: `,
+		indent: "  ",
+	};
+	return finishYamlLine(
+		`${key}: ${formatYamlValue(value, context)}`,
+		context
+	).split("\n");
+}
+
+/**
+ * Sets values of frontmatter keys. Missing keys are added at the end
+ * of frontmatter, note without frontmatter gets one.
+ */
+export function setFrontmatterValues(
+	noteContent: string,
+	values: Record<string, unknown>
+): string {
+	const keys = Object.keys(values);
+	const match = noteContent.match(FRONTMATTER_REGEX);
+	if (!match) {
+		const lines = keys.reduce<string[]>(
+			(result, key) => result.concat(formatKeyLines(key, values[key])),
+			[]
+		);
+		return `---\n${lines.join("\n")}\n---\n${noteContent}`;
+	}
+
+	const existingKeys = new Set(
+		parseBlocks(match[1]).map((block) => block.key)
+	);
+	const updated = applyFrontmatterChanges(
+		noteContent,
+		keys
+			.filter((key) => existingKeys.has(key))
+			.map((key) => ({
+				key,
+				oldValue: "",
+				newValue: "",
+				lines: formatKeyLines(key, values[key]),
+			}))
+	);
+
+	const missingLines = keys
+		.filter((key) => !existingKeys.has(key))
+		.reduce<string[]>(
+			(result, key) => result.concat(formatKeyLines(key, values[key])),
+			[]
+		);
+	if (missingLines.length === 0) return updated;
+
+	const updatedMatch = updated.match(FRONTMATTER_REGEX);
+	if (!updatedMatch) return updated;
+
+	const newline = updatedMatch[0].includes("\r\n") ? "\r\n" : "\n";
+	const frontmatter = [updatedMatch[1], ...missingLines].join(newline);
+	return (
+		`---${newline}${frontmatter}${newline}---${updatedMatch[2]}` +
+		updated.slice(updatedMatch[0].length)
+	);
+}
@@ -0,0 +1,289 @@
+/**
+ * hubNotes.ts
+ *
+ * Creates hub notes for genres, countries, networks and studios
+ * linked from movie notes. Hub movies are found by frontmatter keys
+ * that movie templates fill with links of the hub kind.
+ */
+
+import { normalizePath, Notice, TFile } from "obsidian";
+import { MovieShow } from "Models/MovieShow.model";
+import { Hub, HUB_LIST_FIELDS, HubKind } from "Models/Hub.model";
+import {
+	findKinopoiskId,
+	getVariableFrontmatterKeys,
+} from "Utils/frontmatterUpdate";
+import {
+	ensureFolderExists,
+	getLinkName,
+	getTemplateContents,
+	replaceDataVariableSyntax,
+	replaceIllegalFileNameCharactersInString,
+} from "Utils/utils";
+import { CONTENT_TYPE_SETTINGS, HUB_NOTE_SETTINGS } from "Settings/settings";
+import ObsidianKinopoiskPlugin from "main";
+import { tWithParams } from "../i18n";
+
+// Hub note without template is the list of its movies
+const DEFAULT_HUB_TEMPLATE = "{{moviesList}}\n";
+
+const LINK_REGEX = /\[\[([^\]|#]+)[^\]]*\]\]/g;
+
+type HubNoteResult = "created" | "updated" | "unchanged" | "skipped";
+
+// Movie notes of each hub by hub name
+type HubMovies = Map<string, TFile[]>;
+
+/**
+ * Returns note names of links in frontmatter value
+ */
+function getLinkNames(value: unknown): string[] {
+	const items = Array.isArray(value) ? value : [value];
+	const names: string[] = [];
+
+	for (const item of items) {
+		if (typeof item !== "string") continue;
+		for (const link of item.match(LINK_REGEX) ?? []) {
+			names.push(link.replace(LINK_REGEX, "$1").trim());
+		}
+	}
+
+	return names;
+}
+
+export class HubNoteWriter {
+	constructor(private plugin: ObsidianKinopoiskPlugin) {}
+
+	get app() {
+		return this.plugin.app;
+	}
+
+	/**
+	 * Creates hub notes missing for links of new movie note
+	 */
+	async createMissing(movieShow: MovieShow, movieFile: TFile): Promise<void> {
+		let library: Record<HubKind, HubMovies> | null = null;
+		let created = 0;
+		let failed = 0;
+
+		for (const kind of Object.keys(HUB_NOTE_SETTINGS) as HubKind[]) {
+			const names = movieShow[HUB_NOTE_SETTINGS[kind].linksField]
+				.map(getLinkName)
+				.filter(
+					(name) =>
+						name &&
+						!this.app.metadataCache.getFirstLinkpathDest(
+							name,
+							movieFile.path
+						)
+				);
+			if (names.length === 0) continue;
+
+			// Library is read once, new note may be missing in metadata cache
+			library = library ?? (await this.collectLibrary());
+			const template = await this.getTemplate(kind);
+
+			for (const name of names) {
+				const movies = library[kind].get(name) ?? [];
+				if (!movies.includes(movieFile)) movies.push(movieFile);
+
+				try {
+					const result = await this.writeHub(
+						kind,
+						name,
+						movies,
+						template
+					);
+					if (result === "created") created++;
+				} catch (error) {
+					console.warn(`Failed to create hub note ${name}:`, error);
+					failed++;
+				}
+			}
+		}
+
+		if (created === 0 && failed === 0) return;
+
+		const message = tWithParams("hubNotes.created", { created });
+		new Notice(
+			failed > 0
+				? `${message} ${tWithParams("hubNotes.failed", { failed })}`
+				: message
+		);
+	}
+
+	/**
+	 * Regenerates hub notes of all movie notes in vault.
+	 * Notes with hub name outside hub folder are left untouched.
+	 */
+	async rebuild(): Promise<void> {
+		const library = await this.collectLibrary();
+		let created = 0;
+		let updated = 0;
+		let failed = 0;
+
+		for (const kind of Object.keys(library) as HubKind[]) {
+			const template = await this.getTemplate(kind);
+
+			for (const [name, movies] of Array.from(library[kind])) {
+				try {
+					const result = await this.writeHub(
+						kind,
+						name,
+						movies,
+						template,
+						true
+					);
+					if (result === "created") created++;
+					if (result === "updated") updated++;
+				} catch (error) {
+					console.warn(`Failed to rebuild hub note ${name}:`, error);
+					failed++;
+				}
+			}
+		}
+
+		const message = tWithParams("hubNotes.rebuilt", { created, updated });
+		new Notice(
+			failed > 0
+				? `${message} ${tWithParams("hubNotes.failed", { failed })}`
+				: message
+		);
+	}
+
+	/**
+	 * Movie notes of vault grouped by hub kind and hub name
+	 */
+	private async collectLibrary(): Promise<Record<HubKind, HubMovies>> {
+		const keys = await this.getFrontmatterKeys();
+		const library = {} as Record<HubKind, HubMovies>;
+		for (const kind of Object.keys(HUB_NOTE_SETTINGS) as HubKind[]) {
+			library[kind] = new Map();
+		}
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter =
+				this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!findKinopoiskId(frontmatter)) continue;
+
+			for (const kind of Object.keys(keys) as HubKind[]) {
+				const names = new Set<string>();
+				keys[kind].forEach((key) =>
+					getLinkNames(frontmatter?.[key]).forEach((name) =>
+						names.add(name)
+					)
+				);
+
+				names.forEach((name) => {
+					const movies = library[kind].get(name) ?? [];
+					movies.push(file);
+					library[kind].set(name, movies);
+				});
+			}
+		}
+
+		return library;
+	}
+
+	/**
+	 * Frontmatter keys of each hub kind used in movie templates
+	 */
+	private async getFrontmatterKeys(): Promise<Record<HubKind, string[]>> {
+		const { settings } = this.plugin;
+		const templatePaths = [
+			settings.movieTemplateFile,
+			settings.seriesTemplateFile,
+			...Object.values(CONTENT_TYPE_SETTINGS).map(
+				(type) => settings[type.templateFile]
+			),
+		].filter((path) => path);
+
+		const templates: string[] = [];
+		for (const path of Array.from(new Set(templatePaths))) {
+			templates.push(await getTemplateContents(this.app, path));
+		}
+
+		const keys = {} as Record<HubKind, string[]>;
+		for (const kind of Object.keys(HUB_NOTE_SETTINGS) as HubKind[]) {
+			const variable = HUB_NOTE_SETTINGS[kind].linksField;
+			keys[kind] = Array.from(
+				new Set(
+					templates.reduce<string[]>(
+						(result, template) =>
+							result.concat(
+								getVariableFrontmatterKeys(template, variable)
+							),
+						[]
+					)
+				)
+			);
+		}
+
+		return keys;
+	}
+
+	private async getTemplate(kind: HubKind): Promise<string> {
+		const template = await getTemplateContents(
+			this.app,
+			this.plugin.settings[HUB_NOTE_SETTINGS[kind].templateFile]
+		);
+		return template.trim() ? template : DEFAULT_HUB_TEMPLATE;
+	}
+
+	private async writeHub(
+		kind: HubKind,
+		name: string,
+		movies: TFile[],
+		template: string,
+		overwrite = false
+	): Promise<HubNoteResult> {
+		const folder = this.plugin.settings[HUB_NOTE_SETTINGS[kind].folder];
+		const content = replaceDataVariableSyntax(
+			this.createHub(kind, name, movies),
+			HUB_LIST_FIELDS,
+			template
+		);
+
+		const existingNote = this.app.metadataCache.getFirstLinkpathDest(
+			name,
+			""
+		);
+		if (existingNote) {
+			// Notes outside hub folder belong to user
+			const isInFolder =
+				existingNote.parent?.path === normalizePath(folder || "/");
+			if (!overwrite || !isInFolder) {
+				return "skipped";
+			}
+
+			let changed = false;
+			await this.app.vault.process(existingNote, (oldContent) => {
+				changed = oldContent !== content;
+				return content;
+			});
+			return changed ? "updated" : "unchanged";
+		}
+
+		await ensureFolderExists(this.app, folder);
+		const fileName = `${replaceIllegalFileNameCharactersInString(name)}.md`;
+		await this.app.vault.create(
+			folder ? `${folder}/${fileName}` : fileName,
+			content
+		);
+		return "created";
+	}
+
+	private createHub(kind: HubKind, name: string, movies: TFile[]): Hub {
+		const names = movies
+			.map((file) => file.basename)
+			.sort((a, b) => a.localeCompare(b));
+
+		return {
+			name: [name],
+			kind: [kind],
+			moviesCount: names.length,
+			moviesLinks: names.map((movie) => `"[[${movie}]]"`),
+			moviesList: [names.map((movie) => `- [[${movie}]]`).join("\n")],
+		};
+	}
+}
@@ -8,7 +8,11 @@
 
 import { App, Notice, normalizePath, requestUrl } from "obsidian";
 import { MovieShow } from "Models/MovieShow.model";
-import { replaceIllegalFileNameCharactersInString } from "./utils";
+import {
+	ensureFolderExists,
+	makeFolderPath,
+	replaceIllegalFileNameCharactersInString,
+} from "./utils";
 import { ObsidianKinopoiskPluginSettings } from "Settings/settings";
 import { t, tWithParams } from "../i18n";
 
@@ -248,11 +252,8 @@ async function saveImageToVault(
 ): Promise<string> {
 	const { vault } = app;
 
-	// Ensure folder exists
-	const normalizedFolderPath = normalizePath(folderPath);
-	if (!vault.getAbstractFileByPath(normalizedFolderPath)) {
-		await vault.createFolder(normalizedFolderPath);
-	}
+	// Ensure folder and its parents exist
+	await ensureFolderExists(app, folderPath);
 
 	// Create full file path
 	const fullPath = normalizePath(`${folderPath}/${fileName}`);
@@ -389,6 +390,7 @@ export async function processImages(
 	}
 
 	const updatedMovieShow = { ...movieShow };
+	const imagesFolder = makeFolderPath(movieShow, settings.imagesFolder);
 	const totalImages = countImagesToDownload(movieShow, settings);
 	let processedImages = 0;
 	let successfulDownloads = 0;
@@ -422,7 +424,7 @@ export async function processImages(
 						posterUrl,
 						movieShow,
 						"poster",
-						settings.imagesFolder
+						imagesFolder
 					);
 					updatedMovieShow.posterMarkdown =
 						createImageLink(localPath);
@@ -475,7 +477,7 @@ export async function processImages(
 						coverUrl,
 						movieShow,
 						"cover",
-						settings.imagesFolder
+						imagesFolder
 					);
 					updatedMovieShow.coverMarkdown = createImageLink(localPath);
 					updatedMovieShow.coverPath = [extractCleanPath(localPath)];
@@ -524,7 +526,7 @@ export async function processImages(
 						logoUrl,
 						movieShow,
 						"logo",
-						settings.imagesFolder
+						imagesFolder
 					);
 					updatedMovieShow.logoMarkdown = createImageLink(localPath);
 					updatedMovieShow.logoPath = [extractCleanPath(localPath)];
@@ -0,0 +1,78 @@
+/**
+ * movieNoteIndex.ts
+ *
+ * Index of vault notes by Kinopoisk ID from their properties.
+ * Built from metadata cache on first use and kept in sync with vault events.
+ */
+
+import { App, CachedMetadata, TAbstractFile, TFile } from "obsidian";
+import { findKinopoiskId } from "Utils/frontmatterUpdate";
+
+export class MovieNoteIndex {
+	private idsByPath = new Map<string, number>();
+	private isBuilt = false;
+
+	constructor(private app: App) {}
+
+	/**
+	 * Returns notes with Kinopoisk ID, sorted by path
+	 */
+	findNotes(kinopoiskId: number): TFile[] {
+		if (kinopoiskId <= 0) return [];
+		this.build();
+
+		const notes: TFile[] = [];
+		this.idsByPath.forEach((id, path) => {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (id === kinopoiskId && file instanceof TFile) {
+				notes.push(file);
+			}
+		});
+
+		return notes.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	has(kinopoiskId: number): boolean {
+		return this.findNotes(kinopoiskId).length > 0;
+	}
+
+	/**
+	 * Updates note after its properties were parsed again
+	 */
+	update(file: TFile, cache: CachedMetadata | null): void {
+		if (!this.isBuilt) return;
+
+		const id = findKinopoiskId(cache?.frontmatter);
+		if (id) {
+			this.idsByPath.set(file.path, id);
+		} else {
+			this.idsByPath.delete(file.path);
+		}
+	}
+
+	remove(file: TAbstractFile): void {
+		this.idsByPath.delete(file.path);
+	}
+
+	rename(file: TAbstractFile, oldPath: string): void {
+		const id = this.idsByPath.get(oldPath);
+		this.idsByPath.delete(oldPath);
+		if (id && file instanceof TFile) {
+			this.idsByPath.set(file.path, id);
+		}
+	}
+
+	private build(): void {
+		if (this.isBuilt) return;
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const id = findKinopoiskId(
+				this.app.metadataCache.getFileCache(file)?.frontmatter
+			);
+			if (id) {
+				this.idsByPath.set(file.path, id);
+			}
+		}
+		this.isBuilt = true;
+	}
+}
@@ -0,0 +1,78 @@
+/**
+ * movieReference.ts
+ *
+ * Detects direct movie references in search input:
+ * Kinopoisk URL or ID, IMDb ID or URL, TMDB URL or "tmdb:<id>".
+ * Input in quotes is always a title ("1917").
+ */
+
+export type MovieReference =
+	| { source: "kinopoisk"; id: number }
+	| { source: "imdb"; id: string }
+	| { source: "tmdb"; id: number; mediaType?: "movie" | "tv" };
+
+const KINOPOISK_URL_PATTERN = /kinopoisk\.ru\/(?:film|series)\/(\d+)/i;
+const KINOPOISK_ID_PATTERN = /^\d+$/;
+const IMDB_ID_PATTERN =
+	/^(?:https?:\/\/)?(?:[\w.]*imdb\.com\/title\/)?(tt\d{7,})\/?/i;
+const TMDB_URL_PATTERN = /themoviedb\.org\/(movie|tv)\/(\d+)/i;
+const TMDB_ID_PATTERN = /^tmdb:\s*(?:(movie|tv)\/)?(\d+)$/i;
+
+function isQuotedTitle(value: string): boolean {
+	return value.length > 1 && value.startsWith('"') && value.endsWith('"');
+}
+
+/**
+ * Removes quotes that force title search
+ */
+export function unquoteTitle(input: string): string {
+	const value = input.trim();
+	return isQuotedTitle(value) ? value.slice(1, -1).trim() : value;
+}
+
+/**
+ * Returns reference if input is an ID or a link, otherwise null (title search)
+ */
+export function parseMovieReference(input: string): MovieReference | null {
+	const value = input.trim();
+	if (!value || isQuotedTitle(value)) return null;
+
+	const kinopoiskUrl = value.match(KINOPOISK_URL_PATTERN);
+	if (kinopoiskUrl) {
+		return { source: "kinopoisk", id: Number(kinopoiskUrl[1]) };
+	}
+
+	if (KINOPOISK_ID_PATTERN.test(value)) {
+		return { source: "kinopoisk", id: Number(value) };
+	}
+
+	const imdb = value.match(IMDB_ID_PATTERN);
+	if (imdb) {
+		return { source: "imdb", id: imdb[1].toLowerCase() };
+	}
+
+	const tmdb = value.match(TMDB_URL_PATTERN) ?? value.match(TMDB_ID_PATTERN);
+	if (tmdb) {
+		return {
+			source: "tmdb",
+			id: Number(tmdb[2]),
+			mediaType: tmdb[1]?.toLowerCase() as "movie" | "tv" | undefined,
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Formats reference for messages ("IMDb tt0133093")
+ */
+export function formatMovieReference(reference: MovieReference): string {
+	switch (reference.source) {
+		case "kinopoisk":
+			return `Kinopoisk ${reference.id}`;
+		case "imdb":
+			return `IMDb ${reference.id}`;
+		case "tmdb":
+			return `TMDB ${reference.id}`;
+	}
+}
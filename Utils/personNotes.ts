@@ -0,0 +1,202 @@
+/**
+ * personNotes.ts
+ *
+ * Creates notes for directors and actors linked from movie note.
+ * New notes are rendered from person template with Kinopoisk person data,
+ * existing notes only get the movie added to their filmography section.
+ */
+
+import { Notice, TFile } from "obsidian";
+import { MovieShow } from "Models/MovieShow.model";
+import { Person, PERSON_LIST_FIELDS } from "Models/Person.model";
+import { DataFormatter } from "APIProvider/DataFormatter";
+import {
+	appendToSection,
+	ensureFolderExists,
+	getLinkName,
+	getTemplateContents,
+	replaceDataVariableSyntax,
+	replaceIllegalFileNameCharactersInString,
+} from "Utils/utils";
+import ObsidianKinopoiskPlugin from "main";
+import { t, tWithParams } from "../i18n";
+
+type PersonNoteResult = "created" | "updated" | "unchanged";
+
+/**
+ * Person linked from movie note
+ */
+interface PersonReference {
+	linkName: string; // Text inside [[...]], name of person note
+	id: number; // Kinopoisk person ID, 0 when unknown
+	role: string; // Character name of actor
+}
+
+/**
+ * Adds line to filmography section, section is added at the end
+ * when note has none. Movie already linked from note is skipped.
+ */
+export function addToFilmography(
+	content: string,
+	movieNoteName: string,
+	line: string
+): string {
+	if (
+		content.includes(`[[${movieNoteName}]]`) ||
+		content.includes(`[[${movieNoteName}|`)
+	) {
+		return content;
+	}
+
+	return appendToSection(content, `## ${t("personNotes.filmography")}`, line);
+}
+
+export class PersonNoteWriter {
+	private formatter = new DataFormatter();
+
+	constructor(private plugin: ObsidianKinopoiskPlugin) {}
+
+	get app() {
+		return this.plugin.app;
+	}
+
+	/**
+	 * Creates or updates notes of people linked from movie note
+	 */
+	async update(movieShow: MovieShow, movieFile: TFile): Promise<void> {
+		const people = this.getPeople(movieShow).slice(
+			0,
+			this.plugin.settings.personNotesLimit
+		);
+		if (people.length === 0) return;
+
+		const template = await getTemplateContents(
+			this.app,
+			this.plugin.settings.personTemplateFile
+		);
+		let created = 0;
+		let updated = 0;
+		let failed = 0;
+
+		for (const person of people) {
+			try {
+				const result = await this.updatePerson(
+					person,
+					movieFile,
+					template
+				);
+				if (result === "created") created++;
+				if (result === "updated") updated++;
+			} catch (error) {
+				console.warn(
+					`Failed to update person note ${person.linkName}:`,
+					error
+				);
+				failed++;
+			}
+		}
+
+		const message = tWithParams("personNotes.result", { created, updated });
+		new Notice(
+			failed > 0
+				? `${message} ${tWithParams("personNotes.failed", { failed })}`
+				: message
+		);
+	}
+
+	/**
+	 * Directors first, then actors; person listed twice is kept once
+	 */
+	private getPeople(movieShow: MovieShow): PersonReference[] {
+		const people: PersonReference[] = [];
+		const add = (link: string, id = 0, role = "") => {
+			const linkName = getLinkName(link);
+			if (linkName && !people.some((p) => p.linkName === linkName)) {
+				people.push({ linkName, id, role });
+			}
+		};
+
+		movieShow.directorsLinks.forEach((link, index) =>
+			add(link, movieShow.directorsIds[index])
+		);
+		movieShow.actorsLinks.forEach((link, index) => {
+			// Roles are written as "Actor — Character"
+			const prefix = `${movieShow.actors[index]} — `;
+			const withRole = movieShow.actorsWithRoles[index] || "";
+			add(
+				link,
+				movieShow.actorsIds[index],
+				withRole.startsWith(prefix) ? withRole.slice(prefix.length) : ""
+			);
+		});
+
+		return people;
+	}
+
+	private async updatePerson(
+		person: PersonReference,
+		movieFile: TFile,
+		template: string
+	): Promise<PersonNoteResult> {
+		const line = person.role
+			? `- [[${movieFile.basename}]] — ${person.role}`
+			: `- [[${movieFile.basename}]]`;
+
+		const existingNote = this.app.metadataCache.getFirstLinkpathDest(
+			person.linkName,
+			movieFile.path
+		);
+		if (existingNote) {
+			let changed = false;
+			await this.app.vault.process(existingNote, (content) => {
+				const result = addToFilmography(
+					content,
+					movieFile.basename,
+					line
+				);
+				changed = result !== content;
+				return result;
+			});
+			return changed ? "updated" : "unchanged";
+		}
+
+		const personData = await this.loadPerson(person);
+		personData.movieLink = [`"[[${movieFile.basename}]]"`];
+		const content = replaceDataVariableSyntax(
+			personData,
+			PERSON_LIST_FIELDS,
+			template
+		);
+
+		const folder = this.plugin.settings.personNotesFolder;
+		await ensureFolderExists(this.app, folder);
+
+		const fileName = `${replaceIllegalFileNameCharactersInString(
+			person.linkName
+		)}.md`;
+		await this.app.vault.create(
+			folder ? `${folder}/${fileName}` : fileName,
+			addToFilmography(content, movieFile.basename, line)
+		);
+		return "created";
+	}
+
+	/**
+	 * Person data from provider, name only when provider has no
+	 * person details or Kinopoisk ID is unknown
+	 */
+	private async loadPerson(person: PersonReference): Promise<Person> {
+		const { provider } = this.plugin;
+		if (person.id > 0 && provider.getPersonById) {
+			return provider.getPersonById(
+				person.id,
+				this.plugin.getProviderToken()
+			);
+		}
+
+		return this.formatter.createPersonFrom({
+			id: person.id,
+			name: person.linkName,
+		});
+	}
+}
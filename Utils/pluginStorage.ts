@@ -0,0 +1,54 @@
+/**
+ * pluginStorage.ts
+ *
+ * Helpers for keeping JSON state files in the plugin folder.
+ * Used for data that should not live in settings (caches, counters, jobs).
+ */
+
+import { DataAdapter, normalizePath } from "obsidian";
+
+/**
+ * Builds path to a file inside the plugin folder
+ */
+export function getPluginFilePath(
+	pluginDir: string | undefined,
+	fileName: string
+): string {
+	return normalizePath(pluginDir ? `${pluginDir}/${fileName}` : fileName);
+}
+
+/**
+ * Reads JSON file, returns fallback if file is missing or broken
+ */
+export async function readJsonFile<T>(
+	adapter: DataAdapter,
+	path: string,
+	fallback: T
+): Promise<T> {
+	try {
+		if (!(await adapter.exists(path))) {
+			return fallback;
+		}
+
+		const contents = await adapter.read(path);
+		return JSON.parse(contents) as T;
+	} catch (error) {
+		console.warn(`Failed to read plugin file '${path}':`, error);
+		return fallback;
+	}
+}
+
+/**
+ * Writes data to JSON file
+ */
+export async function writeJsonFile(
+	adapter: DataAdapter,
+	path: string,
+	data: unknown
+): Promise<void> {
+	try {
+		await adapter.write(path, JSON.stringify(data));
+	} catch (error) {
+		console.error(`Failed to write plugin file '${path}':`, error);
+	}
+}
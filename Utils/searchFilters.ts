@@ -0,0 +1,82 @@
+/**
+ * searchFilters.ts
+ *
+ * Client-side filtering of search results.
+ * Used when API cannot apply filters itself (title search, other providers).
+ */
+
+import { KinopoiskSuggestItem } from "Models/kinopoisk_response";
+import { SearchFilters } from "Models/SearchFilters.model";
+
+function includesIgnoreCase(values: string[], value: string): boolean {
+	return values.some((item) => item.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Checks search item against filters.
+ * Criteria without data in the item (e.g. genres from OMDb) are skipped.
+ */
+export function matchesSearchFilters(
+	item: KinopoiskSuggestItem,
+	filters: SearchFilters
+): boolean {
+	const { yearFrom, yearTo, minRatingKp, minRatingImdb, maxAgeRating } =
+		filters;
+
+	if (item.year) {
+		if (yearFrom !== undefined && item.year < yearFrom) return false;
+		if (yearTo !== undefined && item.year > yearTo) return false;
+	}
+
+	if (filters.types.length > 0 && !filters.types.includes(item.type)) {
+		return false;
+	}
+
+	// Item must have all selected genres
+	if (filters.genres.length > 0 && item.genres) {
+		const genres = item.genres.map((genre) => genre.name);
+		if (
+			!filters.genres.every((genre) => includesIgnoreCase(genres, genre))
+		) {
+			return false;
+		}
+	}
+
+	// Item must have any of selected countries
+	if (filters.countries.length > 0 && item.countries) {
+		const countries = item.countries.map((country) => country.name);
+		if (
+			!filters.countries.some((country) =>
+				includesIgnoreCase(countries, country)
+			)
+		) {
+			return false;
+		}
+	}
+
+	if (
+		minRatingKp !== undefined &&
+		item.rating?.kp !== undefined &&
+		item.rating.kp < minRatingKp
+	) {
+		return false;
+	}
+
+	if (
+		minRatingImdb !== undefined &&
+		item.rating?.imdb !== undefined &&
+		item.rating.imdb < minRatingImdb
+	) {
+		return false;
+	}
+
+	if (
+		maxAgeRating !== undefined &&
+		typeof item.ageRating === "number" &&
+		item.ageRating > maxAgeRating
+	) {
+		return false;
+	}
+
+	return true;
+}
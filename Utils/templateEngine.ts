@@ -0,0 +1,585 @@
+/**
+ * templateEngine.ts
+ *
+ * Block sections of the template language:
+ * {{#if key}}…{{else}}…{{/if}}, {{#unless key}}…{{/unless}} and
+ * {{#each key}}…{{this}}…{{/each}}, and placeholders with filters
+ * {{key | filter:arg}}. They are expanded before flat {{key}} replacement,
+ * so templates without them render as before.
+ */
+
+import { getTemplateFilter } from "Utils/templateFilters";
+
+// Block tag: {{#if key}}, {{#unless key}}, {{#each key}}, {{else}}, {{/if}}...
+const BLOCK_TAG_REGEX =
+	/{{\s*(?:#(if|unless|each)\s+([\w@]+)|(else)|\/(if|unless|each))\s*}}/g;
+// Placeholder with optional fallbacks and filters:
+// {{key}}, {{key ?? other ?? "text"}}, {{key | filter:arg | filter}}
+const EXPRESSION_REGEX =
+	/{{\s*((?:[\w@]+|"[^"]*"|'[^']*')(?:\s*\?\?\s*(?:[\w@]+|"[^"]*"|'[^']*'))*)\s*((?:\|(?:"[^"]*"|'[^']*'|[^{}])*)?)}}/g;
+const LOOP_VARIABLES = ["this", "@index", "@number"];
+// Names that are not data keys: loop variables and {{else}}
+const RESERVED_NAMES = [...LOOP_VARIABLES, "@first", "@last", "else"];
+
+type BlockKind = "if" | "unless" | "each";
+
+interface TextNode {
+	type: "text";
+	text: string;
+}
+
+interface BlockNode {
+	type: BlockKind;
+	name: string;
+	body: TemplateNode[];
+	elseBody: TemplateNode[];
+}
+
+type TemplateNode = TextNode | BlockNode;
+
+/**
+ * Template syntax problem with position in source text
+ */
+export interface TemplateError {
+	message: string;
+	offset: number;
+}
+
+/**
+ * Frontmatter key whose placeholders rendered empty:
+ * keep it empty, remove the line or write null
+ */
+export type EmptyValuePolicy = "empty" | "remove" | "null";
+
+/**
+ * Placeholder that uses unknown filter, it is left in output as is
+ */
+export interface TemplateWarning {
+	filter: string;
+	placeholder: string;
+}
+
+/**
+ * Converts value into text for current template part (frontmatter/body)
+ */
+export type ValueFormatter = (value: unknown) => string;
+
+type FilterArg = { literal: string | number } | { variable: string };
+
+export interface ParsedFilter {
+	name: string;
+	args: FilterArg[];
+}
+
+interface LoopScope {
+	item: unknown;
+	index: number;
+	count: number;
+}
+
+interface Frame {
+	node: BlockNode | null; // null for template root
+	inElse: boolean;
+	offset: number;
+}
+
+/**
+ * Falsy values: missing, false, 0, NaN, empty string and empty array
+ */
+export function isTruthy(value: unknown): boolean {
+	if (Array.isArray(value)) {
+		return value.some((item) => isTruthy(item));
+	}
+	if (typeof value === "string") {
+		return value.trim() !== "";
+	}
+	if (typeof value === "number") {
+		return value !== 0 && !isNaN(value);
+	}
+	return Boolean(value);
+}
+
+/**
+ * Finds value by key, ignoring case like flat {{key}} replacement does
+ */
+export function getTemplateValue(
+	values: Record<string, unknown>,
+	name: string
+): unknown {
+	if (name in values) {
+		return values[name];
+	}
+
+	const lowerName = name.toLowerCase();
+	const key = Object.keys(values).find(
+		(item) => item.toLowerCase() === lowerName
+	);
+	return key === undefined ? undefined : values[key];
+}
+
+/**
+ * Returns true when tag is the only content of its line
+ */
+function isStandalone(text: string, start: number, end: number): boolean {
+	const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+	const lineEndIndex = text.indexOf("\n", end);
+	const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+
+	return (
+		text.slice(lineStart, start).trim() === "" &&
+		text.slice(end, lineEnd).trim() === ""
+	);
+}
+
+/**
+ * Parses block sections into tree, broken tags are reported and kept as text.
+ * trimEnd is set when template ends with standalone closing tag: line break
+ * before it belongs to block body, so rendered text gets one extra at the end.
+ */
+export function parseTemplate(text: string): {
+	nodes: TemplateNode[];
+	errors: TemplateError[];
+	trimEnd: boolean;
+} {
+	const root: TemplateNode[] = [];
+	const errors: TemplateError[] = [];
+	let trimEnd = false;
+	const stack: Frame[] = [{ node: null, inElse: false, offset: 0 }];
+
+	const current = (): TemplateNode[] => {
+		const frame = stack[stack.length - 1];
+		if (!frame.node) return root;
+		return frame.inElse ? frame.node.elseBody : frame.node.body;
+	};
+	const pushText = (value: string) => {
+		if (value) current().push({ type: "text", text: value });
+	};
+
+	let position = 0;
+	let match: RegExpExecArray | null;
+	BLOCK_TAG_REGEX.lastIndex = 0;
+
+	while ((match = BLOCK_TAG_REGEX.exec(text)) !== null) {
+		const [tag, openKind, name, elseTag, closeKind] = match;
+		let start = match.index;
+		let end = start + tag.length;
+
+		// Tag on its own line removes the whole line
+		if (isStandalone(text, start, end)) {
+			start = text.lastIndexOf("\n", start - 1) + 1;
+			const lineEnd = text.indexOf("\n", end);
+			end = lineEnd === -1 ? text.length : lineEnd + 1;
+
+			// Last line has no line break of its own. Line break before
+			// opening tag is outside the block and is removed, line break
+			// before closing tag ends block body and is kept
+			if (lineEnd === -1 && start > position) {
+				if (openKind) start--;
+				else trimEnd = true;
+			}
+		}
+
+		pushText(text.slice(position, start));
+		position = end;
+
+		const frame = stack[stack.length - 1];
+
+		if (openKind) {
+			const node: BlockNode = {
+				type: openKind as BlockKind,
+				name,
+				body: [],
+				elseBody: [],
+			};
+			current().push(node);
+			stack.push({ node, inElse: false, offset: match.index });
+		} else if (elseTag) {
+			if (!frame.node || frame.inElse) {
+				errors.push({
+					message: "{{else}} outside of block",
+					offset: match.index,
+				});
+				pushText(tag);
+			} else {
+				frame.inElse = true;
+			}
+		} else if (!frame.node || frame.node.type !== closeKind) {
+			errors.push({
+				message: `Unexpected {{/${closeKind}}}`,
+				offset: match.index,
+			});
+			pushText(tag);
+		} else {
+			stack.pop();
+		}
+	}
+
+	pushText(text.slice(position));
+
+	for (const frame of stack.slice(1)) {
+		errors.push({
+			message: `Unclosed {{#${frame.node?.type} ${frame.node?.name}}}`,
+			offset: frame.offset,
+		});
+	}
+
+	return { nodes: root, errors, trimEnd };
+}
+
+/**
+ * Removes line break that block body added after last line of template
+ */
+function trimTemplateEnd(rendered: string, trimEnd: boolean): string {
+	return trimEnd ? rendered.replace(/\r?\n$/, "") : rendered;
+}
+
+interface RenderContext {
+	values: Record<string, unknown>;
+	formatValue: ValueFormatter;
+	warnings: TemplateWarning[];
+}
+
+function renderNodes(
+	nodes: TemplateNode[],
+	context: RenderContext,
+	loop?: LoopScope
+): string {
+	return nodes
+		.map((node) => {
+			if (node.type === "text") {
+				if (!loop) return node.text;
+				return renderText(node.text, context, loop);
+			}
+
+			const value = resolveValue(node.name, context.values, loop);
+
+			if (node.type === "each") {
+				const items = (Array.isArray(value) ? value : [value]).filter(
+					(item) => isTruthy(item)
+				);
+				if (items.length === 0) {
+					return renderNodes(node.elseBody, context, loop);
+				}
+				return items
+					.map((item, index) =>
+						renderNodes(node.body, context, {
+							item,
+							index,
+							count: items.length,
+						})
+					)
+					.join("");
+			}
+
+			const condition = isTruthy(value) !== (node.type === "unless");
+			return renderNodes(
+				condition ? node.body : node.elseBody,
+				context,
+				loop
+			);
+		})
+		.join("");
+}
+
+// Loop variables are available in conditions: {{#if @first}}
+function resolveValue(
+	name: string,
+	values: Record<string, unknown>,
+	loop?: LoopScope
+): unknown {
+	if (loop) {
+		switch (name) {
+			case "this":
+				return loop.item;
+			case "@index":
+				return loop.index;
+			case "@number":
+				return loop.index + 1;
+			case "@first":
+				return loop.index === 0;
+			case "@last":
+				return loop.index === loop.count - 1;
+		}
+	}
+
+	return getTemplateValue(values, name);
+}
+
+/**
+ * Splits text by separator, ignoring separators inside quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+	const parts: string[] = [];
+	let quote = "";
+	let part = "";
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === "\\" && i + 1 < text.length) {
+				part += char + text[++i];
+				continue;
+			}
+			if (char === quote) quote = "";
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === separator) {
+			parts.push(part);
+			part = "";
+			continue;
+		}
+		part += char;
+	}
+	parts.push(part);
+
+	return parts;
+}
+
+/**
+ * Parses filter chain: " join:\", \" | lower" -> [{ name, args }]
+ */
+export function parseFilterChain(source: string): ParsedFilter[] {
+	return splitOutsideQuotes(source, "|")
+		.slice(1)
+		.map((segment) => {
+			const [name, ...args] = splitOutsideQuotes(segment, ":");
+			return {
+				name: name.trim(),
+				args: args.map((arg) => parseFilterArg(arg.trim())),
+			};
+		});
+}
+
+function parseFilterArg(arg: string): FilterArg {
+	const quoted = arg.match(/^(["'])([\s\S]*)\1$/);
+	if (quoted) {
+		return { literal: quoted[2].replace(/\\(.)/g, "$1") };
+	}
+	if (arg !== "" && isFinite(Number(arg))) {
+		return { literal: Number(arg) };
+	}
+	return { variable: arg };
+}
+
+// Variable arguments take values of other keys: currency:budgetCurrency
+function resolveFilterArg(
+	arg: FilterArg,
+	context: RenderContext,
+	loop?: LoopScope
+): unknown {
+	if ("literal" in arg) {
+		return arg.literal;
+	}
+	return unquoteValue(resolveValue(arg.variable, context.values, loop)).value;
+}
+
+/**
+ * Parses fallback chain: "alternativeName ?? name ?? \"n/a\""
+ */
+function parseFallbackChain(source: string): FilterArg[] {
+	return splitOutsideQuotes(source, "?")
+		.map((operand) => operand.trim())
+		.filter((operand) => operand !== "")
+		.map(parseFilterArg);
+}
+
+/**
+ * Returns first set value of fallback chain, text literals are always set
+ */
+function resolveFallbacks(
+	operands: FilterArg[],
+	context: RenderContext,
+	loop?: LoopScope
+): unknown {
+	let value: unknown;
+	for (const operand of operands) {
+		if ("literal" in operand) {
+			value = operand.literal;
+		} else {
+			value = resolveValue(operand.variable, context.values, loop);
+		}
+		if (isTruthy(value)) {
+			return value;
+		}
+	}
+	return value;
+}
+
+/**
+ * Removes quotes added by data formatter, so filters see plain text
+ */
+function unquoteValue(value: unknown): { value: unknown; quoted: boolean } {
+	const unquote = (item: unknown) =>
+		typeof item === "string" ? item.replace(/^"([\s\S]*)"$/, "$1") : item;
+	const isQuoted = (item: unknown) =>
+		typeof item === "string" && /^"[\s\S]*"$/.test(item);
+
+	if (Array.isArray(value)) {
+		return { value: value.map(unquote), quoted: value.some(isQuoted) };
+	}
+	return { value: unquote(value), quoted: isQuoted(value) };
+}
+
+function requoteValue(value: unknown): unknown {
+	const requote = (item: unknown) =>
+		typeof item === "string" && item !== "" ? `"${item}"` : item;
+	return Array.isArray(value) ? value.map(requote) : requote(value);
+}
+
+/**
+ * Renders placeholders with filters and loop variables.
+ * Plain {{key}} is left for flat replacement.
+ */
+function renderText(
+	text: string,
+	context: RenderContext,
+	loop?: LoopScope
+): string {
+	if (!text.includes("{{")) {
+		return text;
+	}
+
+	return text.replace(
+		EXPRESSION_REGEX,
+		(placeholder, fallbackSource: string, filterSource: string) => {
+			const operands = parseFallbackChain(fallbackSource);
+			const isLoopVariable =
+				loop !== undefined &&
+				operands.some(
+					(operand) =>
+						"variable" in operand &&
+						LOOP_VARIABLES.includes(operand.variable)
+				);
+
+			// Plain {{key}} is left for flat replacement
+			if (
+				operands.length === 1 &&
+				!filterSource.trim() &&
+				!isLoopVariable
+			) {
+				return placeholder;
+			}
+
+			const filters = parseFilterChain(filterSource);
+			const unknown = filters.find(
+				(filter) => !getTemplateFilter(filter.name)
+			);
+			if (unknown) {
+				context.warnings.push({
+					filter: unknown.name,
+					placeholder,
+				});
+				return placeholder;
+			}
+
+			const source = unquoteValue(
+				resolveFallbacks(operands, context, loop)
+			);
+			let value = source.value;
+			for (const filter of filters) {
+				const args = filter.args.map((arg) =>
+					resolveFilterArg(arg, context, loop)
+				);
+				value = getTemplateFilter(filter.name)?.(value, ...args);
+			}
+
+			return context.formatValue(
+				source.quoted ? requoteValue(value) : value
+			);
+		}
+	);
+}
+
+/**
+ * Renders placeholders with fallbacks or filters outside of loops.
+ * Plain {{key}} placeholders are left untouched.
+ */
+export function renderExpressions(
+	text: string,
+	values: Record<string, unknown>,
+	formatValue: ValueFormatter,
+	warnings: TemplateWarning[] = []
+): string {
+	return renderText(text, { values, formatValue, warnings });
+}
+
+/**
+ * Expands block sections and placeholders inside loops.
+ * Other placeholders are left for renderExpressions and flat replacement.
+ */
+export function expandBlocks(
+	text: string,
+	values: Record<string, unknown>,
+	formatValue: ValueFormatter,
+	warnings: TemplateWarning[] = []
+): string {
+	if (!text.includes("{{")) {
+		return text;
+	}
+
+	const { nodes, errors, trimEnd } = parseTemplate(text);
+	errors.forEach((error) =>
+		console.warn(`Template error at ${error.offset}: ${error.message}`)
+	);
+
+	return trimTemplateEnd(
+		renderNodes(nodes, { values, formatValue, warnings }),
+		trimEnd
+	);
+}
+
+/**
+ * Removes block tags, keeping contents of all branches (for template analysis)
+ */
+export function removeBlockTags(text: string): string {
+	const { nodes, trimEnd } = parseTemplate(text);
+
+	const flatten = (items: TemplateNode[]): string =>
+		items
+			.map((node) => {
+				if (node.type === "text") return node.text;
+				return flatten(node.body) + flatten(node.elseBody);
+			})
+			.join("");
+
+	return trimTemplateEnd(flatten(nodes), trimEnd);
+}
+
+/**
+ * Whether text has placeholders, loop variables included
+ */
+export function hasTemplateExpressions(text: string): boolean {
+	EXPRESSION_REGEX.lastIndex = 0;
+	return EXPRESSION_REGEX.test(text);
+}
+
+/**
+ * Returns data keys used by template: placeholders, fallbacks,
+ * filter arguments and block tags, without duplicates
+ */
+export function getTemplateVariables(text: string): string[] {
+	const names: string[] = [];
+	const add = (name: string) => {
+		if (!RESERVED_NAMES.includes(name) && !names.includes(name)) {
+			names.push(name);
+		}
+	};
+	const addArgs = (args: FilterArg[]) =>
+		args.forEach((arg) => {
+			if ("variable" in arg && arg.variable) add(arg.variable);
+		});
+
+	let match: RegExpExecArray | null;
+	BLOCK_TAG_REGEX.lastIndex = 0;
+	while ((match = BLOCK_TAG_REGEX.exec(text)) !== null) {
+		if (match[2]) add(match[2]);
+	}
+
+	EXPRESSION_REGEX.lastIndex = 0;
+	while ((match = EXPRESSION_REGEX.exec(text)) !== null) {
+		addArgs(parseFallbackChain(match[1]));
+		parseFilterChain(match[2]).forEach((filter) => addArgs(filter.args));
+	}
+
+	return names;
+}
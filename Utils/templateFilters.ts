@@ -0,0 +1,145 @@
+/**
+ * templateFilters.ts
+ *
+ * Pipe filters for template placeholders: {{genres | join:" · " | lower}}.
+ * Filters receive unquoted values; lists are handled item by item
+ * unless filter works with the whole list (join, limit, first, last).
+ */
+
+import { getCurrentLanguage, tWithParams } from "../i18n";
+
+export type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+// Currency symbols written before amount ($1 000), others go after (1 000 ₽)
+const PREFIX_CURRENCY_SYMBOLS = ["$", "€", "£", "¥"];
+const DEFAULT_TRUNCATE_SUFFIX = "…";
+
+function getLocale(): string {
+	return getCurrentLanguage() === "ru" ? "ru-RU" : "en-US";
+}
+
+/**
+ * Applies function to every list item or to single value
+ */
+function mapItems(value: unknown, fn: (item: unknown) => unknown): unknown {
+	return Array.isArray(value) ? value.map(fn) : fn(value);
+}
+
+function toText(value: unknown): string {
+	return value === undefined || value === null ? "" : String(value);
+}
+
+function toNumber(value: unknown): number | null {
+	const number = typeof value === "number" ? value : Number(value);
+	return toText(value).trim() !== "" && isFinite(number) ? number : null;
+}
+
+function toList(value: unknown): unknown[] {
+	if (Array.isArray(value)) return value;
+	return toText(value) === "" ? [] : [value];
+}
+
+function formatNumber(value: unknown): unknown {
+	const number = toNumber(value);
+	return number === null ? value : number.toLocaleString(getLocale());
+}
+
+function formatDuration(value: unknown): unknown {
+	const minutes = toNumber(value);
+	if (!minutes || minutes <= 0) return "";
+
+	const hours = Math.floor(minutes / 60);
+	const rest = Math.round(minutes % 60);
+	if (hours === 0) {
+		return tWithParams("templateFilters.minutes", { minutes: rest });
+	}
+	return tWithParams("templateFilters.hoursMinutes", {
+		hours,
+		minutes: rest,
+	});
+}
+
+function formatCurrency(value: unknown, currency: unknown): unknown {
+	const number = toNumber(value);
+	if (!number) return "";
+
+	const amount = number.toLocaleString(getLocale());
+	const symbol = toText(Array.isArray(currency) ? currency[0] : currency);
+	if (!symbol) return amount;
+
+	return PREFIX_CURRENCY_SYMBOLS.includes(symbol)
+		? `${symbol}${amount}`
+		: `${amount} ${symbol}`;
+}
+
+/**
+ * Formats ISO date (YYYY-MM-DD) with YYYY, YY, MM, M, DD and D tokens
+ */
+function formatDate(value: unknown, format: unknown): unknown {
+	const match = toText(value).match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (!match) return value;
+
+	const [, year, month, day] = match;
+	const tokens: Record<string, string> = {
+		YYYY: year,
+		YY: year.slice(2),
+		MM: month,
+		M: String(Number(month)),
+		DD: day,
+		D: String(Number(day)),
+	};
+
+	return toText(format || "YYYY-MM-DD").replace(
+		/YYYY|YY|MM|M|DD|D/g,
+		(token) => tokens[token]
+	);
+}
+
+function truncate(value: unknown, length: unknown, suffix: unknown): unknown {
+	const text = toText(value);
+	const maxLength = toNumber(length);
+	if (maxLength === null || text.length <= maxLength) return value;
+
+	const end = suffix === undefined ? DEFAULT_TRUNCATE_SUFFIX : toText(suffix);
+	return text.slice(0, maxLength).replace(/\s+$/, "") + end;
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+	// Text
+	lower: (value) => mapItems(value, (item) => toText(item).toLowerCase()),
+	upper: (value) => mapItems(value, (item) => toText(item).toUpperCase()),
+	capitalize: (value) =>
+		mapItems(value, (item) => {
+			const text = toText(item);
+			return text.charAt(0).toUpperCase() + text.slice(1);
+		}),
+	truncate: (value, length, suffix) =>
+		mapItems(value, (item) => truncate(item, length, suffix)),
+
+	// Lists
+	join: (value, separator = ", ") =>
+		toList(value).map(toText).join(toText(separator)),
+	limit: (value, count) => {
+		const max = toNumber(count);
+		return max === null ? value : toList(value).slice(0, max);
+	},
+	first: (value) => toList(value)[0] ?? "",
+	last: (value) => toList(value).slice(-1)[0] ?? "",
+
+	// Numbers and dates
+	number: (value) => mapItems(value, formatNumber),
+	duration: (value) => mapItems(value, formatDuration),
+	currency: (value, currency) =>
+		mapItems(value, (item) => formatCurrency(item, currency)),
+	date: (value, format) =>
+		mapItems(value, (item) => formatDate(item, format)),
+};
+
+/**
+ * Returns filter by name or undefined for unknown filter
+ */
+export function getTemplateFilter(name: string): TemplateFilter | undefined {
+	return Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, name)
+		? TEMPLATE_FILTERS[name]
+		: undefined;
+}
@@ -0,0 +1,115 @@
+/**
+ * templateLint.ts
+ *
+ * Checks template before it is used: unknown variables with
+ * "did you mean" suggestions, broken block tags and invalid frontmatter.
+ */
+
+import { parseYaml } from "obsidian";
+import { getTemplateVariables, parseTemplate } from "Utils/templateEngine";
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Variable that is not a data key, with closest known keys
+ */
+export interface UnknownVariable {
+	name: string;
+	suggestions: string[];
+}
+
+/**
+ * Broken block tag with its line number (from 1)
+ */
+export interface TemplateSyntaxError {
+	message: string;
+	line: number;
+}
+
+/**
+ * Levenshtein distance, case is ignored like in variable lookup
+ */
+function getEditDistance(first: string, second: string): number {
+	const a = first.toLowerCase();
+	const b = second.toLowerCase();
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost
+			);
+		}
+		previous = current;
+	}
+
+	return previous[b.length];
+}
+
+/**
+ * Known keys close to name: small typos, or name is part of key
+ */
+function getSuggestions(name: string, knownNames: string[]): string[] {
+	const maxDistance = Math.max(2, Math.floor(name.length / 3));
+	const lowerName = name.toLowerCase();
+
+	return knownNames
+		.map((known) => ({ known, distance: getEditDistance(name, known) }))
+		.filter(
+			({ known, distance }) =>
+				distance <= maxDistance ||
+				(lowerName.length > 3 &&
+					known.toLowerCase().includes(lowerName))
+		)
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, MAX_SUGGESTIONS)
+		.map(({ known }) => known);
+}
+
+/**
+ * Returns template variables that are missing in data keys
+ */
+export function findUnknownVariables(
+	template: string,
+	knownNames: string[]
+): UnknownVariable[] {
+	const lowerKnown = knownNames.map((name) => name.toLowerCase());
+
+	return getTemplateVariables(template)
+		.filter((name) => !lowerKnown.includes(name.toLowerCase()))
+		.map((name) => ({
+			name,
+			suggestions: getSuggestions(name, knownNames),
+		}));
+}
+
+/**
+ * Returns broken block tags of template
+ */
+export function findSyntaxErrors(template: string): TemplateSyntaxError[] {
+	return parseTemplate(template).errors.map((error) => ({
+		message: error.message,
+		line: template.slice(0, error.offset).split("\n").length,
+	}));
+}
+
+/**
+ * Returns YAML parse error of rendered note frontmatter, if any
+ */
+export function getFrontmatterError(content: string): string | null {
+	const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/);
+	if (!match) return null;
+
+	try {
+		parseYaml(match[1]);
+		return null;
+	} catch (error) {
+		// First line, details of YAML parser point into source text
+		const message = error instanceof Error ? error.message : String(error);
+		return message.split("\n")[0];
+	}
+}
@@ -4,12 +4,25 @@
  * Helper functions for movie/series data processing.
  * Handles text formatting, template variable replacement, and file operations.
  *
- * Key feature: Different formatting for YAML metadata (quoted) vs body text (unquoted).
+ * Key feature: Different formatting for YAML metadata (YAML values) vs body text (plain).
  */
 
-import { MovieShow } from "Models/MovieShow.model";
+import { LIST_FIELDS, MovieShow } from "Models/MovieShow.model";
+import {
+	EmptyValuePolicy,
+	expandBlocks,
+	renderExpressions,
+	TemplateWarning,
+} from "Utils/templateEngine";
+import {
+	finishYamlLine,
+	formatYamlValue,
+	getYamlContext,
+	unwrapQuotes,
+	YamlContext,
+} from "Utils/yamlEmitter";
 import { App, normalizePath, Notice } from "obsidian";
-import { t } from "../i18n";
+import { t, tWithParams } from "../i18n";
 
 export function capitalizeFirstLetter(input: string): string {
 	if (!input || input.length === 0) {
@@ -28,6 +41,39 @@ export function replaceIllegalFileNameCharactersInString(text: string): string {
 	return text.replace(/[\\/:*?"<>|]/g, "");
 }
 
+/**
+ * Adds line to the end of section under heading, section is added
+ * at the end of note when note has none
+ */
+export function appendToSection(
+	content: string,
+	heading: string,
+	line: string
+): string {
+	const lines = content.split("\n");
+	const headingIndex = lines.findIndex((text) => text.trim() === heading);
+
+	if (headingIndex < 0) {
+		const body = content.replace(/\s+$/, "");
+		return `${body ? `${body}\n\n` : ""}${heading}\n${line}\n`;
+	}
+
+	// Section ends at next heading, new line goes after its last text line
+	let end = headingIndex + 1;
+	while (end < lines.length && !/^#{1,6}\s/.test(lines[end])) end++;
+	while (end > headingIndex + 1 && lines[end - 1].trim() === "") end--;
+
+	lines.splice(end, 0, line);
+	return lines.join("\n");
+}
+
+/**
+ * Returns note name of quoted link, "[[Name]]" -> Name
+ */
+export function getLinkName(link: string): string {
+	return unwrapQuotes(link).replace(/^\[\[|\]\]$/g, "");
+}
+
 /**
  * Get unquoted value from array for use in body text
  */
@@ -63,157 +109,235 @@ function getPlainValueFromArray(value: unknown): string | number {
 }
 
 /**
- * Get quoted value from array for use in YAML metadata
+ * Rendering options of a template
  */
-function getQuotedValueFromArray(value: unknown): string {
-	if (Array.isArray(value)) {
-		if (value.length === 0) return "";
+export interface TemplateOptions {
+	// What to write for frontmatter keys whose placeholders rendered empty
+	emptyValues?: EmptyValuePolicy;
+	// Collects placeholders with unknown filters instead of showing notice
+	warnings?: TemplateWarning[];
+}
 
-		if (value.length === 1) {
-			const firstValue = String(value[0] || "");
+// Placeholders inside loops are written as list items or scalars
+const LOOP_CONTEXT: YamlContext = { kind: "item", prefix: "", indent: "" };
 
-			// Handle markdown links
-			if (firstValue.startsWith("![[") || firstValue.startsWith("![](")) {
-				if (!firstValue.startsWith('"') && !firstValue.endsWith('"')) {
-					return `"${firstValue}"`;
-				}
-			}
+// Frontmatter key line without value: "rating:", "title: \"\"", "genres: []"
+const EMPTY_KEY_LINE_REGEX = /^(\s*[^\s#-][^:]*):\s*(?:""|''|\[\s*\])?\s*$/;
 
-			// Escape quotes in already quoted strings
-			if (firstValue.startsWith('"') && firstValue.endsWith('"')) {
-				const innerText = firstValue.slice(1, -1);
-				const escapedInnerText = innerText.replace(/"/g, '\\"');
-				return `"${escapedInnerText}"`;
-			}
+/**
+ * Replace template variables with MovieShow data
+ * Handles YAML frontmatter (YAML values) and body text (plain) differently
+ * Block sections ({{#if}}, {{#unless}}, {{#each}}) are expanded first
+ */
+export function replaceVariableSyntax(
+	movieShow: MovieShow,
+	text: string,
+	options: TemplateOptions = {}
+): string {
+	return replaceDataVariableSyntax(movieShow, LIST_FIELDS, text, options);
+}
 
-			return firstValue;
-		}
+/**
+ * Replace template variables with other data, e.g. person notes.
+ * Fields of listFields are written as YAML lists in frontmatter.
+ */
+export function replaceDataVariableSyntax<T extends object>(
+	data: T,
+	listFields: ReadonlyArray<keyof T>,
+	text: string,
+	options: TemplateOptions = {}
+): string {
+	if (!text?.trim()) {
+		return "";
+	}
 
-		// Join multiple elements with comma
-		return value
-			.filter((item) => item != null)
-			.map((item) => {
-				const itemStr = String(item);
+	const warnings: TemplateWarning[] = [];
+	const result = renderTemplate(
+		data as unknown as Record<string, unknown>,
+		listFields as ReadonlyArray<string>,
+		text,
+		options,
+		warnings
+	);
+
+	if (options.warnings) {
+		options.warnings.push(...warnings);
+	} else {
+		showTemplateWarnings(warnings);
+	}
+	return result;
+}
 
-				// Handle markdown links
-				if (itemStr.startsWith("![[") || itemStr.startsWith("![](")) {
-					if (!itemStr.startsWith('"') && !itemStr.endsWith('"')) {
-						return `"${itemStr}"`;
-					}
-				}
+/**
+ * Shows placeholders with unknown filters, they are left in note as is
+ */
+function showTemplateWarnings(warnings: TemplateWarning[]): void {
+	const placeholders = Array.from(
+		new Set(warnings.map((warning) => warning.placeholder))
+	);
+	if (placeholders.length === 0) return;
+
+	const filters = Array.from(
+		new Set(warnings.map((warning) => warning.filter))
+	);
+	new Notice(
+		tWithParams("templateFilters.unknownFilter", {
+			filters: filters.join(", "),
+			placeholders: placeholders.join(", "),
+		})
+	);
+}
 
-				// Escape quotes in quoted strings
-				if (itemStr.startsWith('"') && itemStr.endsWith('"')) {
-					const innerText = itemStr.slice(1, -1);
-					const escapedInnerText = innerText.replace(/"/g, '\\"');
-					return `"${escapedInnerText}"`;
-				}
+function toArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [value];
+}
 
-				return itemStr;
-			})
-			.join(", ");
-	}
+// Formatter for values computed by template expressions in body
+function formatPlain(value: unknown): string {
+	return String(getPlainValueFromArray(toArray(value)));
+}
 
-	const stringValue = String(value || "");
+function formatPlainField(value: unknown): string {
+	return String(getPlainValueFromArray(value));
+}
+
+/**
+ * Renders placeholders of text part: fallbacks and filters,
+ * then flat {{key}} replacement. Unknown variables are removed.
+ */
+function renderPart(
+	values: Record<string, unknown>,
+	text: string,
+	formatValue: (value: unknown) => string,
+	formatField: (value: unknown) => string,
+	warnings: TemplateWarning[]
+): string {
+	const expanded = renderExpressions(text, values, formatValue, warnings);
+
+	return Object.entries(values)
+		.reduce((result, [key, val = ""]) => {
+			try {
+				return result.replace(
+					new RegExp(`{{${key}}}`, "ig"),
+					formatField(val)
+				);
+			} catch (error) {
+				console.error(`Error processing variable ${key}:`, error);
+				return result;
+			}
+		}, expanded)
+		.replace(/{{\w+}}/gi, "");
+}
 
-	// Escape quotes in quoted strings
-	if (stringValue.startsWith('"') && stringValue.endsWith('"')) {
-		const innerText = stringValue.slice(1, -1);
-		const escapedInnerText = innerText.replace(/"/g, '\\"');
-		return `"${escapedInnerText}"`;
+/**
+ * Values for frontmatter: list fields stay arrays,
+ * other array fields become their single value.
+ * Numbers are 0 when data is missing, they are written empty.
+ */
+function getFrontmatterValues(
+	data: Record<string, unknown>,
+	listFields: ReadonlyArray<string>
+): Record<string, unknown> {
+	const values: Record<string, unknown> = {};
+
+	for (const [key, value] of Object.entries(data)) {
+		const isList = listFields.includes(key);
+		if (Array.isArray(value) && !isList) {
+			values[key] = unwrapQuotes(String(value[0] ?? ""));
+		} else if (value === 0) {
+			values[key] = "";
+		} else {
+			values[key] = value;
+		}
 	}
 
-	return stringValue;
+	return values;
 }
 
 /**
- * Replace template variables with MovieShow data
- * Handles YAML frontmatter (quoted) and body text (unquoted) differently
+ * Renders frontmatter line by line as YAML, so values are written
+ * by their place in line and keys left without value
+ * can be removed or set to null
  */
-export function replaceVariableSyntax(
-	movieShow: MovieShow,
-	text: string
+function renderFrontmatter(
+	data: Record<string, unknown>,
+	listFields: ReadonlyArray<string>,
+	frontmatter: string,
+	policy: EmptyValuePolicy,
+	warnings: TemplateWarning[]
 ): string {
-	if (!text?.trim()) {
-		return "";
+	const values = getFrontmatterValues(data, listFields);
+	const expanded = expandBlocks(
+		frontmatter,
+		values,
+		(value) => formatYamlValue(value, LOOP_CONTEXT),
+		warnings
+	);
+	const lines: string[] = [];
+
+	for (const line of expanded.split("\n")) {
+		const context = getYamlContext(line);
+		const format = (value: unknown) => formatYamlValue(value, context);
+		const rendered = finishYamlLine(
+			renderPart(values, line, format, format, warnings),
+			context
+		);
+
+		if (context.kind === "item" && rendered.trim() === "-") continue;
+
+		const emptyKey = line.includes("{{")
+			? rendered.match(EMPTY_KEY_LINE_REGEX)
+			: null;
+
+		if (!emptyKey || policy === "empty") {
+			lines.push(rendered);
+		} else if (policy === "null") {
+			lines.push(`${emptyKey[1]}: null`);
+		}
 	}
 
+	return lines.join("\n");
+}
+
+function renderTemplate(
+	values: Record<string, unknown>,
+	listFields: ReadonlyArray<string>,
+	text: string,
+	options: TemplateOptions,
+	warnings: TemplateWarning[]
+): string {
 	try {
 		// Split text into frontmatter and body
 		const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
 		const match = text.match(frontmatterRegex);
 
 		if (match) {
-			// Has frontmatter block
-			const [, frontmatter, body] = match;
-
-			// Process frontmatter with quotes
-			const processedFrontmatter = Object.entries(movieShow).reduce(
-				(result, [key, val = ""]) => {
-					try {
-						const quotedValue = getQuotedValueFromArray(val);
-						return result.replace(
-							new RegExp(`{{${key}}}`, "ig"),
-							quotedValue
-						);
-					} catch (error) {
-						console.error(
-							`Error processing frontmatter variable ${key}:`,
-							error
-						);
-						return result;
-					}
-				},
-				frontmatter
+			// Frontmatter as YAML, body as plain text
+			const frontmatter = renderFrontmatter(
+				values,
+				listFields,
+				match[1],
+				options.emptyValues ?? "empty",
+				warnings
 			);
-
-			// Process body without quotes
-			const processedBody = Object.entries(movieShow).reduce(
-				(result, [key, val = ""]) => {
-					try {
-						const plainValue = getPlainValueFromArray(val);
-						return result.replace(
-							new RegExp(`{{${key}}}`, "ig"),
-							String(plainValue)
-						);
-					} catch (error) {
-						console.error(
-							`Error processing body variable ${key}:`,
-							error
-						);
-						return result;
-					}
-				},
-				body
+			const body = renderPart(
+				values,
+				expandBlocks(match[2], values, formatPlain, warnings),
+				formatPlain,
+				formatPlainField,
+				warnings
 			);
 
-			// Combine result
-			const result = `---\n${processedFrontmatter}\n---\n${processedBody}`;
-
-			// Remove unused variables
-			return result.replace(/{{\w+}}/gi, "").trim();
+			return `---\n${frontmatter}\n---\n${body}`.trim();
 		} else {
 			// No frontmatter, process entire text without quotes
-			const entries = Object.entries(movieShow);
-
-			return entries
-				.reduce((result, [key, val = ""]) => {
-					try {
-						const plainValue = getPlainValueFromArray(val);
-						return result.replace(
-							new RegExp(`{{${key}}}`, "ig"),
-							String(plainValue)
-						);
-					} catch (error) {
-						console.error(
-							`Error processing variable ${key}:`,
-							error
-						);
-						return result;
-					}
-				}, text)
-				.replace(/{{\w+}}/gi, "")
-				.trim();
+			return renderPart(
+				values,
+				expandBlocks(text, values, formatPlain, warnings),
+				formatPlain,
+				formatPlainField,
+				warnings
+			).trim();
 		}
 	} catch (error) {
 		console.error("Error in replaceVariableSyntax:", error);
@@ -281,6 +405,62 @@ export async function makeFileName(
 	}
 }
 
+// Slashes inside placeholders, e.g. in filter arguments, don't split path
+const FOLDER_SEPARATOR_REGEX = /\/(?![^{]*}})/;
+
+/**
+ * Renders placeholders of folder setting, e.g. Movies/{{year}}.
+ * Each segment is cleaned like file name, empty segments are dropped.
+ */
+export function makeFolderPath(
+	movieShow: MovieShow,
+	folderFormat: string
+): string {
+	if (!folderFormat) return "";
+
+	return folderFormat
+		.split(FOLDER_SEPARATOR_REGEX)
+		.map((segment) =>
+			replaceIllegalFileNameCharactersInString(
+				replaceVariableSyntax(movieShow, segment)
+			).trim()
+		)
+		.filter((segment) => segment && segment !== "." && segment !== "..")
+		.join("/");
+}
+
+/**
+ * Returns part of folder setting before first placeholder
+ */
+export function getStaticFolderPath(folderFormat: string): string {
+	const segments = folderFormat.split(FOLDER_SEPARATOR_REGEX);
+	const dynamicIndex = segments.findIndex((segment) =>
+		segment.includes("{{")
+	);
+	return (dynamicIndex < 0 ? segments : segments.slice(0, dynamicIndex))
+		.filter((segment) => segment.trim())
+		.join("/");
+}
+
+/**
+ * Creates folder with all missing parent folders
+ */
+export async function ensureFolderExists(
+	app: App,
+	folderPath: string
+): Promise<void> {
+	const normalizedPath = normalizePath(folderPath);
+	if (!folderPath || normalizedPath === "/") return;
+
+	let currentPath = "";
+	for (const segment of normalizedPath.split("/")) {
+		currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+		if (!app.vault.getAbstractFileByPath(currentPath)) {
+			await app.vault.createFolder(currentPath);
+		}
+	}
+}
+
 /**
  * Read template file contents
  * Returns empty string if template not found or error occurs
@@ -0,0 +1,118 @@
+/**
+ * watchDiary.ts
+ *
+ * Writes watch diary fields of movie note: watch status, personal rating,
+ * watched dates and rewatch count. Frontmatter key names come from settings.
+ * Logged viewings are also added to viewing log section of note body.
+ */
+
+import { Notice, TFile } from "obsidian";
+import {
+	getFrontmatterData,
+	setFrontmatterValues,
+} from "Utils/frontmatterUpdate";
+import { appendToSection } from "Utils/utils";
+import { WATCH_FIELD_SETTINGS, WatchField } from "Settings/settings";
+import ObsidianKinopoiskPlugin from "main";
+import { t, tWithParams } from "../i18n";
+
+export type WatchStatus = "want" | "watching" | "watched" | "dropped";
+
+export const WATCH_STATUSES: WatchStatus[] = [
+	"want",
+	"watching",
+	"watched",
+	"dropped",
+];
+
+export const MAX_PERSONAL_RATING = 10;
+
+/**
+ * Returns local date as YYYY-MM-DD
+ */
+export function formatWatchDate(date: Date = new Date()): string {
+	const pad = (value: number) => `0${value}`.slice(-2);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+		date.getDate()
+	)}`;
+}
+
+/**
+ * Watched dates of frontmatter value, YAML may read them as dates
+ */
+function getWatchDates(value: unknown): string[] {
+	const items = Array.isArray(value) ? value : [value];
+	return items
+		.filter((item) => item !== null && item !== undefined && item !== "")
+		.map((item) =>
+			item instanceof Date
+				? item.toISOString().split("T")[0]
+				: String(item)
+		);
+}
+
+export class WatchDiary {
+	constructor(private plugin: ObsidianKinopoiskPlugin) {}
+
+	get app() {
+		return this.plugin.app;
+	}
+
+	async setStatus(file: TFile, status: WatchStatus): Promise<void> {
+		await this.app.vault.process(file, (content) =>
+			setFrontmatterValues(content, { [this.getKey("status")]: status })
+		);
+		new Notice(
+			tWithParams("watchDiary.statusSet", {
+				status: t(`watchDiary.statuses.${status}`),
+			})
+		);
+	}
+
+	async setRating(file: TFile, rating: number): Promise<void> {
+		await this.app.vault.process(file, (content) =>
+			setFrontmatterValues(content, { [this.getKey("rating")]: rating })
+		);
+		new Notice(tWithParams("watchDiary.ratingSet", { rating }));
+	}
+
+	/**
+	 * Adds watched date, marks note watched and adds entry to viewing log.
+	 * Every viewing after the first one counts as rewatch.
+	 */
+	async logViewing(
+		file: TFile,
+		date: string,
+		comment: string
+	): Promise<void> {
+		const datesKey = this.getKey("dates");
+		const rewatchesKey = this.getKey("rewatches");
+
+		await this.app.vault.process(file, (content) => {
+			const data = getFrontmatterData(content);
+			const dates = getWatchDates(data[datesKey]);
+			const rewatches = Number(data[rewatchesKey]) || 0;
+
+			const values: Record<string, unknown> = {
+				[this.getKey("status")]: "watched",
+				[datesKey]: [...dates, date],
+				[rewatchesKey]: dates.length > 0 ? rewatches + 1 : rewatches,
+			};
+			const entry = comment.trim()
+				? `- ${date} — ${comment.trim()}`
+				: `- ${date}`;
+
+			return appendToSection(
+				setFrontmatterValues(content, values),
+				`## ${t("watchDiary.logHeading")}`,
+				entry
+			);
+		});
+		new Notice(tWithParams("watchDiary.viewingLogged", { date }));
+	}
+
+	// Frontmatter key of field from settings
+	private getKey(field: WatchField): string {
+		return this.plugin.settings[WATCH_FIELD_SETTINGS[field]];
+	}
+}
@@ -0,0 +1,157 @@
+/**
+ * yamlEmitter.ts
+ *
+ * Writes template values into frontmatter as valid YAML.
+ * How a value is written depends on placeholder position in the line:
+ * whole value of a key, flow list, block list item, quoted string or text.
+ */
+
+export type YamlContextKind =
+	| "value" // key: {{var}}
+	| "item" // - {{var}}
+	| "flow" // key: [{{var}}]
+	| "double" // key: "text {{var}}"
+	| "single" // key: 'text {{var}}'
+	| "text" // key: text {{var}}
+	| "plain"; // Lines without key, written as is
+
+export interface YamlContext {
+	kind: YamlContextKind;
+	prefix: string; // Indent and key of line
+	indent: string; // Indent of list items
+}
+
+const LINE_REGEX = /^(\s*)(-\s+|[^\s#-][^:]*:\s*)(.*?)\s*$/;
+const WHOLE_PLACEHOLDER_REGEX = /^{{(?:(?!{{|}}).)*}}$/;
+
+// Values that YAML would read as something else than text
+const RESERVED_REGEX = /^(?:true|false|yes|no|on|off|y|n|null|~)$/i;
+const NUMBER_REGEX =
+	/^(?:[-+]?(?:\.\d+|\d[\d_]*(?:\.\d*)?)(?:[eE][-+]?\d+)?|0x[\da-f]+|[-+]?\.(?:inf|nan))$/i;
+const INDICATOR_START_REGEX = /^(?:[[\]{},#&*!|>'"%@`]|[-?:](?:\s|$))/;
+const FLOW_INDICATOR_REGEX = /[[\]{},]/;
+
+/**
+ * Detects where placeholders of frontmatter line are written
+ */
+export function getYamlContext(line: string): YamlContext {
+	const match = line.match(LINE_REGEX);
+	if (!match || !match[3].includes("{{")) {
+		return { kind: "plain", prefix: "", indent: "" };
+	}
+
+	const [, indent, key, value] = match;
+	const prefix = indent + key;
+
+	if (WHOLE_PLACEHOLDER_REGEX.test(value)) {
+		if (key.startsWith("-")) {
+			return { kind: "item", prefix, indent };
+		}
+		return { kind: "value", prefix, indent: `${indent}  ` };
+	}
+	if (/^\[.*\]$/.test(value)) return { kind: "flow", prefix, indent };
+	if (/^".*"$/.test(value)) return { kind: "double", prefix, indent };
+	if (/^'.*'$/.test(value)) return { kind: "single", prefix, indent };
+
+	return { kind: "text", prefix, indent };
+}
+
+/**
+ * Removes quotes that formatter added around long texts and links
+ */
+export function unwrapQuotes(text: string): string {
+	return text.replace(/^"([\s\S]*)"$/, "$1");
+}
+
+function toText(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	return unwrapQuotes(String(value));
+}
+
+// Numbers stay numbers, e.g. episode counts of seasons
+function toItems(value: unknown): Array<string | number> {
+	const items = Array.isArray(value) ? value : [value];
+	return items
+		.map((item) => (typeof item === "number" ? item : toText(item)))
+		.filter((item) => item !== "");
+}
+
+function needsQuotes(text: string, inFlow: boolean): boolean {
+	return (
+		text !== text.trim() ||
+		INDICATOR_START_REGEX.test(text) ||
+		RESERVED_REGEX.test(text) ||
+		NUMBER_REGEX.test(text) ||
+		/:\s|:$|\s#|[\n\r\t]/.test(text) ||
+		(inFlow && FLOW_INDICATOR_REGEX.test(text))
+	);
+}
+
+function quote(text: string): string {
+	const escaped = text
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n")
+		.replace(/\r/g, "\\r")
+		.replace(/\t/g, "\\t");
+	return `"${escaped}"`;
+}
+
+/**
+ * Writes single value as YAML scalar, quoted only when needed
+ */
+export function toYamlScalar(value: unknown, inFlow = false): string {
+	if (typeof value === "number") return isFinite(value) ? String(value) : "";
+	if (typeof value === "boolean") return String(value);
+
+	const text = toText(value);
+	if (text === "") return "";
+	return needsQuotes(text, inFlow) ? quote(text) : text;
+}
+
+/**
+ * Writes value for placeholder in given context.
+ * Lists become block lists for whole key value and list items,
+ * comma separated items in flow lists and text elsewhere.
+ */
+export function formatYamlValue(value: unknown, context: YamlContext): string {
+	switch (context.kind) {
+		case "value":
+			if (!Array.isArray(value)) return toYamlScalar(value);
+			return toItems(value)
+				.map((item) => `\n${context.indent}- ${toYamlScalar(item)}`)
+				.join("");
+
+		case "item":
+			return toItems(value)
+				.map((item) => toYamlScalar(item))
+				.join(`\n${context.indent}- `);
+
+		case "flow":
+			return toItems(value)
+				.map((item) => toYamlScalar(item, true))
+				.join(", ");
+
+		case "double":
+			return quote(toItems(value).join(", ")).slice(1, -1);
+
+		case "single":
+			return toItems(value).join(", ").replace(/'/g, "''");
+
+		default:
+			return toItems(value).join(", ");
+	}
+}
+
+/**
+ * Removes trailing spaces of rendered line and quotes value
+ * of text line when YAML can't read it as is
+ */
+export function finishYamlLine(line: string, context: YamlContext): string {
+	if (context.kind === "plain") return line;
+	if (context.kind !== "text") return line.replace(/[ \t]+(?=\n|$)/g, "");
+
+	const value = line.slice(context.prefix.length).trim();
+	if (value === "" || !needsQuotes(value, false)) return line;
+	return context.prefix + quote(value);
+}
@@ -0,0 +1,74 @@
+/**
+ * duplicate_modal.ts
+ *
+ * Shown when the chosen movie already has a note in the vault.
+ * Lets user open or refresh the existing note, or create a new one anyway.
+ */
+
+import { App, Modal, Setting, TFile } from "obsidian";
+import { t, tWithParams } from "../i18n";
+
+export type DuplicateAction = "open" | "refresh" | "create";
+
+interface DuplicateCallback {
+	(action: DuplicateAction | null): void;
+}
+
+export class DuplicateModal extends Modal {
+	private action: DuplicateAction | null = null;
+
+	constructor(
+		app: App,
+		private movieName: string,
+		private existingNotes: TFile[],
+		private callback: DuplicateCallback
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: t("duplicates.title") });
+		contentEl.createEl("p", {
+			text: tWithParams("duplicates.description", {
+				name: this.movieName,
+			}),
+		});
+
+		const list = contentEl.createEl("ul", {
+			cls: "kinopoisk-plugin__duplicate-list",
+		});
+		for (const note of this.existingNotes) {
+			list.createEl("li", { text: note.path });
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("duplicates.open"))
+					.setCta()
+					.onClick(() => this.choose("open"))
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("duplicates.refresh"))
+					.onClick(() => this.choose("refresh"))
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("duplicates.create"))
+					.onClick(() => this.choose("create"))
+			);
+	}
+
+	private choose(action: DuplicateAction): void {
+		this.action = action;
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.callback(this.action);
+	}
+}
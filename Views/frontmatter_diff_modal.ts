@@ -0,0 +1,92 @@
+/**
+ * frontmatter_diff_modal.ts
+ *
+ * Confirmation modal for note data refresh.
+ * Shows current and new values of changed frontmatter keys before saving.
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import { FrontmatterChange } from "Utils/frontmatterUpdate";
+import { t, tWithParams } from "../i18n";
+
+interface ConfirmCallback {
+	(confirmed: boolean): void;
+}
+
+export class FrontmatterDiffModal extends Modal {
+	private confirmed = false;
+
+	constructor(
+		app: App,
+		private fileName: string,
+		private changes: FrontmatterChange[],
+		private callback: ConfirmCallback
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: t("refresh.title") });
+		contentEl.createEl("p", {
+			text: tWithParams("refresh.summary", {
+				count: this.changes.length,
+				file: this.fileName,
+			}),
+		});
+
+		const table = contentEl.createEl("table", {
+			cls: "kinopoisk-plugin__diff-table",
+		});
+		const headerRow = table.createEl("thead").createEl("tr");
+		headerRow.createEl("th", { text: t("refresh.field") });
+		headerRow.createEl("th", { text: t("refresh.currentValue") });
+		headerRow.createEl("th", { text: t("refresh.newValue") });
+
+		const body = table.createEl("tbody");
+		for (const change of this.changes) {
+			const row = body.createEl("tr");
+			row.createEl("td", { text: change.key });
+			this.renderValue(row, change.oldValue, "removed");
+			this.renderValue(row, change.newValue, "added");
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("common.cancel"))
+					.onClick(() => this.close())
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("common.save"))
+					.setCta()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					})
+			);
+	}
+
+	// Renders value cell, empty values are shown as placeholder
+	private renderValue(
+		row: HTMLElement,
+		value: string,
+		kind: "removed" | "added"
+	): void {
+		const cell = row.createEl("td", {
+			cls: `kinopoisk-plugin__diff-${kind}`,
+		});
+		if (value) {
+			cell.createEl("code", { text: value });
+		} else {
+			cell.createEl("em", { text: t("refresh.emptyValue") });
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.callback(this.confirmed);
+	}
+}
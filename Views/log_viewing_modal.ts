@@ -0,0 +1,71 @@
+/**
+ * log_viewing_modal.ts
+ *
+ * Asks for viewing date (today by default) and optional comment
+ * before viewing is logged in movie note.
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import { formatWatchDate } from "Utils/watchDiary";
+import { t } from "../i18n";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+interface LogViewingCallback {
+	(date: string, comment: string): void;
+}
+
+export class LogViewingModal extends Modal {
+	private date = formatWatchDate();
+	private comment = "";
+
+	constructor(app: App, private onSubmit: LogViewingCallback) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: t("watchDiary.logTitle") });
+
+		new Setting(contentEl).setName(t("watchDiary.date")).addText((text) => {
+			text.inputEl.type = "date";
+			text.setValue(this.date).onChange((value) => {
+				this.date = value;
+			});
+		});
+
+		new Setting(contentEl)
+			.setName(t("watchDiary.comment"))
+			.addText((text) => {
+				text.setPlaceholder(
+					t("watchDiary.commentPlaceholder")
+				).onChange((value) => {
+					this.comment = value;
+				});
+				text.inputEl.addEventListener("keydown", (event) => {
+					if (event.key === "Enter") {
+						event.preventDefault();
+						this.submit();
+					}
+				});
+			});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText(t("watchDiary.log"))
+				.setCta()
+				.onClick(() => this.submit())
+		);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		// Cleared date input logs viewing for today
+		const date = DATE_REGEX.test(this.date) ? this.date : formatWatchDate();
+		this.close();
+		this.onSubmit(date, this.comment);
+	}
+}
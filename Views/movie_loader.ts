@@ -0,0 +1,170 @@
+/**
+ * movie_loader.ts
+ *
+ * Loads movie details and local images with progress shown in a notice.
+ * Shared by suggest modal (chosen result) and search modal (direct lookup).
+ */
+
+import { Notice } from "obsidian";
+import { MovieShow } from "Models/MovieShow.model";
+import { MetadataProvider } from "APIProvider/MetadataProvider";
+import { getRetryMessage } from "APIProvider/RequestScheduler";
+import { processImages, ProgressCallback } from "Utils/imageUtils";
+import ObsidianKinopoiskPlugin from "main";
+import { t } from "../i18n";
+
+export class MovieLoader {
+	private loadingNotice?: Notice;
+	private provider: MetadataProvider;
+
+	constructor(
+		private plugin: ObsidianKinopoiskPlugin,
+		provider: MetadataProvider = plugin.provider
+	) {
+		this.provider = provider;
+	}
+
+	/**
+	 * Fetches movie via provider, images are saved separately.
+	 * Errors are rethrown after loading notice is hidden.
+	 */
+	async load(
+		fetchMovie: (
+			provider: MetadataProvider,
+			token: string
+		) => Promise<MovieShow>
+	): Promise<MovieShow> {
+		// Show rate limit retries in loading notice
+		const unsubscribe = this.provider.onQueueStateChange((state) => {
+			const message = getRetryMessage(state);
+			if (message) {
+				this.updateLoadingNotice(message);
+			}
+		});
+
+		try {
+			this.updateStatus(t("modals.loadingMovieInfo"));
+
+			const movieShow = await fetchMovie(
+				this.provider,
+				this.plugin.getProviderToken(this.provider)
+			);
+
+			this.hideLoadingNotice();
+			new Notice(t("modals.movieInfoLoaded"));
+			this.plugin.lastMovieShow = movieShow;
+			return movieShow;
+		} catch (error) {
+			this.hideLoadingNotice();
+			throw error;
+		} finally {
+			unsubscribe();
+		}
+	}
+
+	/**
+	 * Saves images of loaded movie locally with progress in notice
+	 */
+	async loadImages(movieShow: MovieShow): Promise<MovieShow> {
+		try {
+			const processedMovieShow = await this.processMovieImages(movieShow);
+			this.plugin.lastMovieShow = processedMovieShow;
+			return processedMovieShow;
+		} finally {
+			this.hideLoadingNotice();
+		}
+	}
+
+	// Hides loading notice
+	hideLoadingNotice(): void {
+		if (this.loadingNotice) {
+			this.loadingNotice.hide();
+			this.loadingNotice = undefined;
+		}
+	}
+
+	// Manages loading notice display
+	private updateStatus(message: string, persistent: boolean = true): void {
+		this.hideLoadingNotice();
+		this.loadingNotice = new Notice(message, persistent ? 0 : 3000);
+	}
+
+	// Updates existing loading notice text
+	private updateLoadingNotice(message: string): void {
+		if (this.loadingNotice) {
+			const noticeEl = this.loadingNotice.noticeEl;
+			if (noticeEl) {
+				noticeEl.textContent = message;
+			}
+		} else {
+			this.updateStatus(message);
+		}
+	}
+
+	// Creates progress text with percentage
+	private createProgressText(
+		current: number,
+		total: number,
+		task: string
+	): string {
+		if (total === 0) return task;
+
+		const percentage = Math.round((current / total) * 100);
+		const progressBar = this.createProgressBar(current, total);
+
+		return `${task}\n${progressBar} ${current}/${total} (${percentage}%)`;
+	}
+
+	// Creates visual progress bar from characters
+	private createProgressBar(
+		current: number,
+		total: number,
+		length: number = 20
+	): string {
+		if (total === 0) return "";
+
+		const filled = Math.round((current / total) * length);
+		const empty = length - filled;
+
+		return "█".repeat(filled) + "░".repeat(empty);
+	}
+
+	// Processes movie images with progress tracking
+	private async processMovieImages(movieShow: MovieShow): Promise<MovieShow> {
+		this.updateLoadingNotice(t("modals.preparingImages"));
+
+		let imageProcessingCompleted = false;
+
+		// Progress callback for image processing
+		const progressCallback: ProgressCallback = (
+			current: number,
+			total: number,
+			currentTask: string
+		) => {
+			const progressText = this.createProgressText(
+				current,
+				total,
+				currentTask
+			);
+			this.updateLoadingNotice(progressText);
+
+			if (current === total) {
+				imageProcessingCompleted = true;
+			}
+		};
+
+		const processedMovieShow = await processImages(
+			this.plugin.app,
+			movieShow,
+			this.plugin.settings,
+			progressCallback
+		);
+
+		// Brief delay to show final status
+		if (imageProcessingCompleted) {
+			await new Promise((resolve) => setTimeout(resolve, 1000));
+		}
+
+		return processedMovieShow;
+	}
+}
@@ -0,0 +1,63 @@
+/**
+ * quota_status_bar.ts
+ *
+ * Status bar indicator with used and remaining daily API requests.
+ * Highlights the indicator and warns once per day when quota runs low.
+ */
+
+import { Notice } from "obsidian";
+import {
+	QuotaStatus,
+	QuotaTracker,
+	getQuotaDay,
+} from "APIProvider/QuotaTracker";
+import { tWithParams } from "../i18n";
+
+export class QuotaStatusBar {
+	private warnedDay = "";
+
+	constructor(
+		private statusBarEl: HTMLElement,
+		private quotaTracker: QuotaTracker,
+		onClick: () => void
+	) {
+		this.statusBarEl.addClass("kinopoisk-plugin__quota-status");
+		this.statusBarEl.addEventListener("click", onClick);
+	}
+
+	/**
+	 * Redraws indicator with current usage
+	 */
+	update(status: QuotaStatus = this.quotaTracker.getStatus()): void {
+		const limitText = status.limit > 0 ? `/${status.limit}` : "";
+		this.statusBarEl.setText(`🎬 ${status.used}${limitText}`);
+		this.statusBarEl.setAttr(
+			"aria-label",
+			tWithParams("usage.statusBarTooltip", {
+				used: status.used,
+				limit: status.limit,
+				remaining: status.remaining,
+			})
+		);
+		this.statusBarEl.toggleClass(
+			"kinopoisk-plugin__quota-status--warning",
+			status.isWarning
+		);
+
+		this.warnIfNeeded(status);
+	}
+
+	private warnIfNeeded(status: QuotaStatus): void {
+		const today = getQuotaDay();
+		if (!status.isWarning || this.warnedDay === today) {
+			return;
+		}
+
+		this.warnedDay = today;
+		new Notice(
+			tWithParams("usage.lowQuotaWarning", {
+				remaining: status.remaining,
+			})
+		);
+	}
+}
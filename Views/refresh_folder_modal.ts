@@ -0,0 +1,61 @@
+/**
+ * refresh_folder_modal.ts
+ *
+ * Folder picker for bulk refresh.
+ * First option covers movie and series folders from settings.
+ */
+
+import { App, FuzzySuggestModal, TFolder } from "obsidian";
+import { t, tWithParams } from "../i18n";
+
+interface RefreshTarget {
+	label: string;
+	folders: string[];
+}
+
+interface FolderCallback {
+	(folders: string[]): void;
+}
+
+export class RefreshFolderModal extends FuzzySuggestModal<RefreshTarget> {
+	constructor(
+		app: App,
+		private noteFolders: string[],
+		private onChoose: FolderCallback
+	) {
+		super(app);
+		this.setPlaceholder(t("bulkRefresh.folderPlaceholder"));
+	}
+
+	getItems(): RefreshTarget[] {
+		const folders = this.app.vault
+			.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder)
+			.map((folder) => ({
+				label: folder.isRoot()
+					? t("bulkRefresh.wholeVault")
+					: folder.path,
+				folders: [folder.isRoot() ? "" : folder.path],
+			}));
+
+		return [
+			{
+				label: tWithParams("bulkRefresh.noteFolders", {
+					folders: this.noteFolders
+						.map((folder) => folder || "/")
+						.join(", "),
+				}),
+				folders: this.noteFolders,
+			},
+			...folders,
+		];
+	}
+
+	getItemText(item: RefreshTarget): string {
+		return item.label;
+	}
+
+	onChooseItem(item: RefreshTarget): void {
+		this.onChoose(item.folders);
+	}
+}
@@ -1,8 +1,9 @@
 /**
  * search_modal.ts
  *
- * Search modal for movies and TV shows via Kinopoisk API.
+ * Search modal for movies and TV shows via selected metadata provider.
  * Provides search interface and handles API requests.
+ * Links and IDs in input skip search and load the movie directly.
  */
 
 import {
@@ -12,13 +13,62 @@ import {
 	TextComponent,
 	Notice,
 } from "obsidian";
-import { KinopoiskSuggestItem } from "Models/kinopoisk_response";
-import { KinopoiskProvider } from "APIProvider/provider";
+import {
+	AGE_RATINGS,
+	CONTENT_TYPES,
+	createEmptySearchFilters,
+	hasActiveFilters,
+	SearchFilters,
+} from "Models/SearchFilters.model";
+import {
+	MetadataProvider,
+	SearchResultsPage,
+} from "APIProvider/MetadataProvider";
+import { getRetryMessage } from "APIProvider/RequestScheduler";
+import { MovieShow } from "Models/MovieShow.model";
+import {
+	MovieReference,
+	parseMovieReference,
+	unquoteTitle,
+} from "Utils/movieReference";
+import { MovieLoader } from "Views/movie_loader";
 import ObsidianKinopoiskPlugin from "main";
 import { t } from "../i18n";
 
+/**
+ * First page of results with request data for loading next pages
+ */
+export interface SearchResults {
+	query: string;
+	filters: SearchFilters;
+	firstPage: SearchResultsPage;
+}
+
+/**
+ * Search results for suggest modal or movie loaded by direct reference
+ */
+export type SearchModalResult =
+	| { kind: "results"; results: SearchResults }
+	| { kind: "movie"; movieShow: MovieShow };
+
 interface SearchCallback {
-	(error: Error | null, result?: KinopoiskSuggestItem[]): void;
+	(error: Error | null, result?: SearchModalResult): void;
+}
+
+// Parses number input, empty or invalid value means "not set"
+function parseOptionalNumber(value: string): number | undefined {
+	if (!value.trim()) return undefined;
+
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Parses comma separated list input
+function parseList(value: string): string[] {
+	return value
+		.split(",")
+		.map((item) => item.trim())
+		.filter((item) => item !== "");
 }
 
 export class SearchModal extends Modal {
@@ -26,16 +76,18 @@ export class SearchModal extends Modal {
 	private okBtnRef?: ButtonComponent;
 	private inputRef?: TextComponent;
 	private query = "";
+	private filters: SearchFilters = createEmptySearchFilters();
 	private token = "";
-	private kinopoiskProvider: KinopoiskProvider;
+	private provider: MetadataProvider;
+	private retryNotice?: Notice;
 
 	constructor(
-		plugin: ObsidianKinopoiskPlugin,
+		private plugin: ObsidianKinopoiskPlugin,
 		private callback: SearchCallback
 	) {
 		super(plugin.app);
-		this.token = plugin.settings.apiToken;
-		this.kinopoiskProvider = new KinopoiskProvider();
+		this.token = plugin.getProviderToken();
+		this.provider = plugin.provider;
 	}
 
 	// Manages UI loading state
@@ -48,18 +100,13 @@ export class SearchModal extends Modal {
 		this.inputRef?.setDisabled(busy);
 	}
 
-	// Validates input before search
+	// Validates input before search, filters alone are enough
 	private validateInput(): boolean {
-		if (!this.query?.trim()) {
+		if (!this.query?.trim() && !hasActiveFilters(this.filters)) {
 			new Notice(t("modals.enterMovieName"));
 			return false;
 		}
 
-		if (!this.token?.trim()) {
-			new Notice(t("modals.needApiToken"));
-			return false;
-		}
-
 		if (this.isBusy) {
 			return false;
 		}
@@ -78,23 +125,64 @@ export class SearchModal extends Modal {
 		this.callback(error as Error);
 	}
 
-	// Performs search via Kinopoisk API
+	// Performs search via selected provider
 	async search() {
 		if (!this.validateInput()) {
 			return;
 		}
 
+		// Filters are ignored when input is a link or an ID
+		const reference = parseMovieReference(this.query);
+		if (reference) {
+			await this.lookup(reference);
+			return;
+		}
+
+		const query = unquoteTitle(this.query);
+
+		// Report rate limit retries while request is waiting
+		const unsubscribe = this.provider.onQueueStateChange((state) => {
+			const message = getRetryMessage(state);
+			if (message) {
+				this.retryNotice?.hide();
+				this.retryNotice = new Notice(message, state.retryDelayMs);
+			}
+		});
+
 		try {
 			this.setBusy(true);
-			const searchResults = await this.kinopoiskProvider.searchByQuery(
-				this.query.trim(),
-				this.token
+			const firstPage = await this.provider.searchByQuery(
+				query,
+				this.token,
+				this.filters
 			);
 
-			this.callback(null, searchResults);
+			this.callback(null, {
+				kind: "results",
+				results: { query, filters: this.filters, firstPage },
+			});
 			this.close(); // Close modal only on success
 		} catch (error) {
 			this.handleSearchError(error);
+		} finally {
+			unsubscribe();
+			this.retryNotice?.hide();
+			this.setBusy(false);
+		}
+	}
+
+	// Loads movie by reference without suggest step
+	private async lookup(reference: MovieReference): Promise<void> {
+		try {
+			this.setBusy(true);
+			const movieShow = await new MovieLoader(this.plugin).load(
+				(provider, token) => provider.lookup(reference, token)
+			);
+
+			this.callback(null, { kind: "movie", movieShow });
+			this.close();
+		} catch (error) {
+			this.handleSearchError(error);
 		} finally {
 			this.setBusy(false);
 		}
@@ -127,6 +215,8 @@ export class SearchModal extends Modal {
 			}
 		);
 
+		this.renderFilters(contentEl);
+
 		new Setting(contentEl).addButton((btn) => {
 			return (this.okBtnRef = btn
 				.setButtonText(t("modals.searchButton"))
@@ -137,6 +227,104 @@ export class SearchModal extends Modal {
 		});
 	}
 
+	// Renders collapsible filters section
+	private renderFilters(containerEl: HTMLElement): void {
+		const detailsEl = containerEl.createEl("details", {
+			cls: "kinopoisk-plugin__search-filters",
+		});
+		detailsEl.createEl("summary", { text: t("modals.filtersTitle") });
+
+		new Setting(detailsEl)
+			.setName(t("modals.filterYear"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.setPlaceholder(t("modals.filterFrom")).onChange(
+					(value) =>
+						(this.filters.yearFrom = parseOptionalNumber(value))
+				);
+			})
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.setPlaceholder(t("modals.filterTo")).onChange(
+					(value) =>
+						(this.filters.yearTo = parseOptionalNumber(value))
+				);
+			});
+
+		const typesSetting = new Setting(detailsEl).setName(
+			t("modals.filterTypes")
+		);
+		for (const type of CONTENT_TYPES) {
+			const labelEl = typesSetting.controlEl.createEl("label", {
+				cls: "kinopoisk-plugin__search-filters-type",
+			});
+			const checkboxEl = labelEl.createEl("input", {
+				type: "checkbox",
+			});
+			labelEl.appendText(t(`contentTypes.${type}`));
+
+			checkboxEl.addEventListener("change", () => {
+				this.filters.types = checkboxEl.checked
+					? [...this.filters.types, type]
+					: this.filters.types.filter((item) => item !== type);
+			});
+		}
+
+		new Setting(detailsEl)
+			.setName(t("modals.filterGenres"))
+			.addText((text) =>
+				text
+					.setPlaceholder(t("modals.filterGenresPlaceholder"))
+					.onChange(
+						(value) =>
+							(this.filters.genres = parseList(
+								value.toLowerCase()
+							))
+					)
+			);
+
+		new Setting(detailsEl)
+			.setName(t("modals.filterCountries"))
+			.addText((text) =>
+				text
+					.setPlaceholder(t("modals.filterCountriesPlaceholder"))
+					.onChange(
+						(value) => (this.filters.countries = parseList(value))
+					)
+			);
+
+		new Setting(detailsEl)
+			.setName(t("modals.filterMinRating"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.setPlaceholder("Kinopoisk").onChange(
+					(value) =>
+						(this.filters.minRatingKp = parseOptionalNumber(value))
+				);
+			})
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.setPlaceholder("IMDb").onChange(
+					(value) =>
+						(this.filters.minRatingImdb =
+							parseOptionalNumber(value))
+				);
+			});
+
+		new Setting(detailsEl)
+			.setName(t("modals.filterAgeRating"))
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", t("modals.filterAny"));
+				for (const age of AGE_RATINGS) {
+					dropdown.addOption(String(age), `${age}+`);
+				}
+				dropdown.onChange(
+					(value) =>
+						(this.filters.maxAgeRating = parseOptionalNumber(value))
+				);
+			});
+	}
+
 	onClose() {
 		// Clean up event listener
 		if (this.inputRef?.inputEl) {
@@ -2,45 +2,143 @@
  * suggest_modal.ts
  *
  * Modal for selecting movies/TV shows from search results.
- * Displays search results with posters, handles filtering and detailed data fetching.
+ * Displays search results with posters, handles filtering, loading of next
+ * result pages and detailed data fetching.
  */
 
 import { SuggestModal, Notice } from "obsidian";
 import { KinopoiskSuggestItem } from "Models/kinopoisk_response";
 import { MovieShow } from "Models/MovieShow.model";
-import { KinopoiskProvider } from "APIProvider/provider";
-import { processImages, ProgressCallback } from "Utils/imageUtils";
+import {
+	MetadataProvider,
+	SearchResultsPage,
+	usesKinopoiskIds,
+} from "APIProvider/MetadataProvider";
+import { ApiValidator } from "APIProvider/ApiValidator";
+import { SearchResults } from "Views/search_modal";
+import { MovieLoader } from "Views/movie_loader";
+import { MovieNoteIndex } from "Utils/movieNoteIndex";
 import ObsidianKinopoiskPlugin from "main";
-import { t } from "../i18n";
+import { t, tWithParams } from "../i18n";
 
 interface SuggestCallback {
 	(error: Error | null, result?: MovieShow): void;
 }
 
-export class ItemsSuggestModal extends SuggestModal<KinopoiskSuggestItem> {
+// Last list entry that loads next page of search results
+interface LoadMoreEntry {
+	loadMore: true;
+}
+
+type SuggestEntry = KinopoiskSuggestItem | LoadMoreEntry;
+
+function isLoadMoreEntry(entry: SuggestEntry): entry is LoadMoreEntry {
+	return "loadMore" in entry;
+}
+
+export class ItemsSuggestModal extends SuggestModal<SuggestEntry> {
 	private token = "";
-	private loadingNotice?: Notice;
-	private kinopoiskProvider: KinopoiskProvider;
+	private provider: MetadataProvider;
+	private movieLoader: MovieLoader;
+	private noteIndex?: MovieNoteIndex; // Set when item IDs are Kinopoisk IDs
+	private validator = new ApiValidator();
+	private suggestion: KinopoiskSuggestItem[];
+	private lastPage: SearchResultsPage;
+	private isLoadingMore = false;
 
 	constructor(
-		private plugin: ObsidianKinopoiskPlugin,
-		private readonly suggestion: KinopoiskSuggestItem[],
+		plugin: ObsidianKinopoiskPlugin,
+		private readonly searchResults: SearchResults,
 		private onChoose: SuggestCallback
 	) {
 		super(plugin.app);
-		this.token = plugin.settings.apiToken;
-		this.kinopoiskProvider = new KinopoiskProvider();
+		this.token = plugin.getProviderToken();
+		this.provider = plugin.provider;
+		this.movieLoader = new MovieLoader(plugin);
+		if (usesKinopoiskIds(plugin.provider.id)) {
+			this.noteIndex = plugin.noteIndex;
+		}
+		this.suggestion = [...searchResults.firstPage.items];
+		this.lastPage = searchResults.firstPage;
 	}
 
-	// Filters suggestions by search query
-	getSuggestions(query: string): KinopoiskSuggestItem[] {
-		return this.suggestion.filter((item) => {
-			const searchQuery = query?.toLowerCase();
+	// Filters suggestions by search query, adds "load more" entry when next page exists
+	getSuggestions(query: string): SuggestEntry[] {
+		const searchQuery = query?.toLowerCase();
+		const items: SuggestEntry[] = this.suggestion.filter((item) => {
 			return (
 				item.name.toLowerCase().includes(searchQuery) ||
 				item.alternativeName.toLowerCase().includes(searchQuery)
 			);
 		});
+
+		if (this.hasNextPage()) {
+			items.push({ loadMore: true });
+		}
+
+		return items;
+	}
+
+	// Checks whether next page exists and is within API bounds
+	private hasNextPage(): boolean {
+		const nextPage = this.lastPage.page + 1;
+		return (
+			nextPage <= this.lastPage.pages &&
+			this.validator.isValidPaginationParams(nextPage)
+		);
+	}
+
+	// Keeps modal open when "load more" entry is chosen
+	selectSuggestion(value: SuggestEntry, evt: MouseEvent | KeyboardEvent) {
+		if (isLoadMoreEntry(value)) {
+			this.loadNextPage();
+			return;
+		}
+
+		super.selectSuggestion(value, evt);
+	}
+
+	// Fetches next page and appends new items to the list
+	private async loadNextPage(): Promise<void> {
+		if (this.isLoadingMore) return;
+
+		this.isLoadingMore = true;
+		this.refreshSuggestions();
+
+		try {
+			const { query, filters } = this.searchResults;
+			const nextPage = await this.provider.searchByQuery(
+				query,
+				this.token,
+				filters,
+				this.lastPage.page + 1
+			);
+
+			// Same title may move between pages while paging
+			const knownKeys = new Set(
+				this.suggestion.map((item) => `${item.type}:${item.id}`)
+			);
+			this.suggestion.push(
+				...nextPage.items.filter(
+					(item) => !knownKeys.has(`${item.type}:${item.id}`)
+				)
+			);
+			this.lastPage = nextPage;
+		} catch (error) {
+			new Notice(
+				error instanceof Error
+					? error.message
+					: t("modals.errorUnexpected")
+			);
+		} finally {
+			this.isLoadingMore = false;
+			this.refreshSuggestions();
+		}
+	}
+
+	// Re-runs getSuggestions for current input value
+	private refreshSuggestions(): void {
+		this.inputEl.dispatchEvent(new Event("input"));
 	}
 
 	// Validates image URL
@@ -100,7 +198,12 @@ export class ItemsSuggestModal extends SuggestModal<KinopoiskSuggestItem> {
 	}
 
 	// Renders list item with poster and movie info
-	renderSuggestion(item: KinopoiskSuggestItem, el: HTMLElement) {
+	renderSuggestion(item: SuggestEntry, el: HTMLElement) {
+		if (isLoadMoreEntry(item)) {
+			this.renderLoadMore(el);
+			return;
+		}
+
 		const title = item.name;
 		const subtitle = `${item.year}, ${item.alternativeName} (${item.type})`;
 
@@ -115,65 +218,37 @@ export class ItemsSuggestModal extends SuggestModal<KinopoiskSuggestItem> {
 		});
 		textInfo.appendChild(el.createEl("div", { text: title }));
 		textInfo.appendChild(el.createEl("small", { text: subtitle }));
-	}
-
-	// Handles item selection
-	onChooseSuggestion(item: KinopoiskSuggestItem) {
-		this.getItemDetails(item);
-	}
 
-	// Manages loading notice display
-	private updateStatus(message: string, persistent: boolean = true): void {
-		this.hideLoadingNotice();
-		this.loadingNotice = new Notice(message, persistent ? 0 : 3000);
-	}
-
-	// Hides loading notice
-	private hideLoadingNotice(): void {
-		if (this.loadingNotice) {
-			this.loadingNotice.hide();
-			this.loadingNotice = undefined;
-		}
-	}
-
-	// Updates existing loading notice text
-	private updateLoadingNotice(message: string): void {
-		if (this.loadingNotice) {
-			const noticeEl = this.loadingNotice.noticeEl;
-			if (noticeEl) {
-				noticeEl.textContent = message;
-			}
-		} else {
-			this.updateStatus(message);
+		// Mark titles that already have a note
+		if (this.noteIndex?.has(item.id)) {
+			textInfo.createEl("small", {
+				cls: "kinopoisk-plugin__suggest-in-vault",
+				text: t("modals.alreadyInVault"),
+			});
 		}
 	}
 
-	// Creates progress text with percentage
-	private createProgressText(
-		current: number,
-		total: number,
-		task: string
-	): string {
-		if (total === 0) return task;
-
-		const percentage = Math.round((current / total) * 100);
-		const progressBar = this.createProgressBar(current, total);
+	// Renders "load more" entry with page counter
+	private renderLoadMore(el: HTMLElement) {
+		const pageInfo = {
+			page: this.lastPage.page + 1,
+			pages: this.lastPage.pages,
+		};
+		const text = this.isLoadingMore
+			? t("modals.loadingMore")
+			: tWithParams("modals.loadMore", pageInfo);
 
-		return `${task}\n${progressBar} ${current}/${total} (${percentage}%)`;
+		el.createEl("div", {
+			cls: "kinopoisk-plugin__suggest-load-more",
+			text,
+		});
 	}
 
-	// Creates visual progress bar from characters
-	private createProgressBar(
-		current: number,
-		total: number,
-		length: number = 20
-	): string {
-		if (total === 0) return "";
-
-		const filled = Math.round((current / total) * length);
-		const empty = length - filled;
+	// Handles item selection
+	onChooseSuggestion(item: SuggestEntry) {
+		if (isLoadMoreEntry(item)) return;
 
-		return "█".repeat(filled) + "░".repeat(empty);
+		this.getItemDetails(item);
 	}
 
 	// Validates input data
@@ -184,77 +259,11 @@ export class ItemsSuggestModal extends SuggestModal<KinopoiskSuggestItem> {
 			return false;
 		}
 
-		if (!this.token?.trim()) {
-			new Notice(t("modals.needApiToken"));
-			this.onChoose(new Error(t("modals.needApiToken")));
-			return false;
-		}
-
 		return true;
 	}
 
-	// Fetches movie data via API
-	private async fetchMovieData(itemId: number): Promise<MovieShow> {
-		return await this.kinopoiskProvider.getMovieById(itemId, this.token);
-	}
-
-	// Processes movie images with progress tracking
-	private async processMovieImages(movieShow: MovieShow): Promise<MovieShow> {
-		this.updateLoadingNotice(t("modals.preparingImages"));
-
-		let imageProcessingCompleted = false;
-
-		// Progress callback for image processing
-		const progressCallback: ProgressCallback = (
-			current: number,
-			total: number,
-			currentTask: string
-		) => {
-			const progressText = this.createProgressText(
-				current,
-				total,
-				currentTask
-			);
-			this.updateLoadingNotice(progressText);
-
-			if (current === total) {
-				imageProcessingCompleted = true;
-			}
-		};
-
-		const processedMovieShow = await processImages(
-			this.plugin.app,
-			movieShow,
-			this.plugin.settings,
-			progressCallback
-		);
-
-		// Brief delay to show final status
-		if (imageProcessingCompleted) {
-			await new Promise((resolve) => setTimeout(resolve, 1000));
-		}
-
-		return processedMovieShow;
-	}
-
-	// Handles successful data retrieval
-	private handleSuccess(
-		movieShow: MovieShow,
-		hadImageProcessing: boolean = false
-	): void {
-		this.hideLoadingNotice();
-
-		if (!hadImageProcessing) {
-			new Notice(t("modals.movieInfoLoaded"));
-		}
-
-		this.onChoose(null, movieShow);
-	}
-
 	// Handles errors during data retrieval
 	private handleError(error: unknown): void {
-		this.hideLoadingNotice();
-
 		const errorMessage =
 			error instanceof Error
 				? error.message
@@ -265,25 +274,17 @@ export class ItemsSuggestModal extends SuggestModal<KinopoiskSuggestItem> {
 		this.onChoose(error as Error);
 	}
 
-	// Fetches detailed movie information with image processing and progress tracking
+	// Fetches detailed movie information with progress tracking
 	async getItemDetails(item: KinopoiskSuggestItem) {
 		if (!this.validateInput(item)) {
 			return;
 		}
 
 		try {
-			this.updateStatus(t("modals.loadingMovieInfo"));
-
-			const movieShow = await this.fetchMovieData(item.id);
-
-			// Return immediately if local image saving is disabled
-			if (!this.plugin.settings.saveImagesLocally) {
-				this.handleSuccess(movieShow, false);
-				return;
-			}
-
-			const processedMovieShow = await this.processMovieImages(movieShow);
-			this.handleSuccess(processedMovieShow, true);
+			const movieShow = await this.movieLoader.load((provider, token) =>
+				provider.getMovieById(item.id, token, item.type)
+			);
+			this.onChoose(null, movieShow);
 		} catch (error) {
 			this.handleError(error);
 		}
@@ -291,7 +292,7 @@ export class ItemsSuggestModal extends SuggestModal<KinopoiskSuggestItem> {
 
 	// Clean up notices on close
 	onClose() {
-		this.hideLoadingNotice();
+		this.movieLoader.hideLoadingNotice();
 		super.onClose();
 	}
 }
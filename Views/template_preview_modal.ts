@@ -0,0 +1,233 @@
+/**
+ * template_preview_modal.ts
+ *
+ * Renders template with sample movie before any note is created.
+ * Lists unknown variables, broken block tags, unknown filters
+ * and frontmatter YAML errors.
+ */
+
+import { Component, MarkdownRenderer, Modal, Setting } from "obsidian";
+import ObsidianKinopoiskPlugin from "main";
+import { MovieShow } from "Models/MovieShow.model";
+import { DataFormatter } from "APIProvider/DataFormatter";
+import { SAMPLE_MOVIES } from "APIProvider/fixtureSamples";
+import { TemplateWarning } from "Utils/templateEngine";
+import {
+	findSyntaxErrors,
+	findUnknownVariables,
+	getFrontmatterError,
+} from "Utils/templateLint";
+import { getTemplateContents, replaceVariableSyntax } from "Utils/utils";
+import { t, tWithParams } from "../i18n";
+
+const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---\n?([\s\S]*)$/;
+
+interface PreviewSample {
+	label: string;
+	movieShow: MovieShow;
+}
+
+export class TemplatePreviewModal extends Modal {
+	private samples: PreviewSample[];
+	private sampleIndex: number;
+	private template = "";
+	private component = new Component();
+	private resultEl: HTMLElement;
+
+	constructor(
+		private plugin: ObsidianKinopoiskPlugin,
+		private templatePath: string,
+		isSeries: boolean
+	) {
+		super(plugin.app);
+		this.samples = this.getSamples();
+
+		// Last fetched title or first bundled sample of the same type
+		const index = this.samples.findIndex(
+			(sample) => sample.movieShow.isSeries === isSeries
+		);
+		this.sampleIndex = Math.max(index, 0);
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass("kinopoisk-plugin__template-preview");
+		contentEl.createEl("h2", { text: t("templatePreview.title") });
+
+		this.template = await getTemplateContents(this.app, this.templatePath);
+		if (!this.template.trim()) {
+			contentEl.createEl("p", { text: t("templatePreview.noTemplate") });
+			return;
+		}
+
+		new Setting(contentEl)
+			.setName(t("templatePreview.sample"))
+			.addDropdown((dropdown) => {
+				this.samples.forEach((sample, index) =>
+					dropdown.addOption(String(index), sample.label)
+				);
+				dropdown
+					.setValue(String(this.sampleIndex))
+					.onChange(async (value) => {
+						this.sampleIndex = Number(value);
+						await this.render();
+					});
+			});
+
+		this.resultEl = contentEl.createDiv();
+		await this.render();
+	}
+
+	onClose() {
+		this.component.unload();
+		this.contentEl.empty();
+	}
+
+	// Bundled samples, last fetched title goes first
+	private getSamples(): PreviewSample[] {
+		const formatter = new DataFormatter(() =>
+			this.plugin.getPeopleLimits()
+		);
+		const samples = SAMPLE_MOVIES.map((movie) => ({
+			label: tWithParams("templatePreview.bundledSample", {
+				name: movie.name,
+			}),
+			movieShow: formatter.createMovieShowFrom(movie),
+		}));
+
+		const lastMovieShow = this.plugin.lastMovieShow;
+		if (lastMovieShow) {
+			samples.unshift({
+				label: tWithParams("templatePreview.lastFetched", {
+					name: lastMovieShow.nameForFile,
+				}),
+				movieShow: lastMovieShow,
+			});
+		}
+
+		return samples;
+	}
+
+	// Renders template with chosen sample
+	private async render(): Promise<void> {
+		// Child components of previous render are released
+		this.component.unload();
+		this.component = new Component();
+		this.component.load();
+		this.resultEl.empty();
+
+		const { movieShow } = this.samples[this.sampleIndex];
+		const warnings: TemplateWarning[] = [];
+		const content = replaceVariableSyntax(movieShow, this.template, {
+			...this.plugin.getTemplateOptions(movieShow),
+			warnings,
+		});
+
+		this.renderProblems(this.getProblems(movieShow, content, warnings));
+
+		const match = content.match(FRONTMATTER_REGEX);
+		if (match) {
+			this.resultEl.createEl("h3", {
+				text: t("templatePreview.properties"),
+			});
+			this.resultEl.createEl("pre", {
+				cls: "kinopoisk-plugin__template-preview-yaml",
+				text: match[1],
+			});
+		}
+
+		this.resultEl.createEl("h3", { text: t("templatePreview.note") });
+		const noteEl = this.resultEl.createDiv({
+			cls: "kinopoisk-plugin__template-preview-note markdown-rendered",
+		});
+		await MarkdownRenderer.render(
+			this.app,
+			match ? match[2] : content,
+			noteEl,
+			this.templatePath,
+			this.component
+		);
+	}
+
+	// Collects template problems as readable messages
+	private getProblems(
+		movieShow: MovieShow,
+		content: string,
+		warnings: TemplateWarning[]
+	): string[] {
+		const problems: string[] = [];
+
+		for (const error of findSyntaxErrors(this.template)) {
+			problems.push(
+				tWithParams("templatePreview.syntaxError", {
+					line: error.line,
+					message: error.message,
+				})
+			);
+		}
+
+		const unknownVariables = findUnknownVariables(
+			this.template,
+			Object.keys(movieShow)
+		);
+		for (const variable of unknownVariables) {
+			if (variable.suggestions.length === 0) {
+				problems.push(
+					tWithParams("templatePreview.unknownVariable", {
+						name: variable.name,
+					})
+				);
+				continue;
+			}
+			problems.push(
+				tWithParams("templatePreview.didYouMean", {
+					name: variable.name,
+					suggestions: variable.suggestions
+						.map((name) => `{{${name}}}`)
+						.join(", "),
+				})
+			);
+		}
+
+		const placeholders = new Set<string>();
+		for (const warning of warnings) {
+			if (placeholders.has(warning.placeholder)) continue;
+			placeholders.add(warning.placeholder);
+			problems.push(
+				tWithParams("templatePreview.unknownFilter", {
+					filter: warning.filter,
+					placeholder: warning.placeholder,
+				})
+			);
+		}
+
+		const yamlError = getFrontmatterError(content);
+		if (yamlError) {
+			problems.push(
+				tWithParams("templatePreview.yamlError", {
+					message: yamlError,
+				})
+			);
+		}
+
+		return problems;
+	}
+
+	private renderProblems(problems: string[]): void {
+		if (problems.length === 0) {
+			this.resultEl.createEl("p", {
+				cls: "kinopoisk-plugin__template-preview-ok",
+				text: t("templatePreview.noProblems"),
+			});
+			return;
+		}
+
+		this.resultEl.createEl("h3", { text: t("templatePreview.problems") });
+		const list = this.resultEl.createEl("ul", {
+			cls: "kinopoisk-plugin__template-preview-problems",
+		});
+		for (const problem of problems) {
+			list.createEl("li", { text: problem });
+		}
+	}
+}
@@ -0,0 +1,64 @@
+/**
+ * usage_modal.ts
+ *
+ * Modal with Kinopoisk API usage statistics.
+ * Shows today's quota and per-endpoint request counts for the last 30 days.
+ */
+
+import { App, Modal } from "obsidian";
+import { QuotaTracker } from "APIProvider/QuotaTracker";
+import { t, tWithParams } from "../i18n";
+
+export class UsageModal extends Modal {
+	constructor(app: App, private quotaTracker: QuotaTracker) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const status = this.quotaTracker.getStatus();
+		const history = this.quotaTracker.getHistory();
+
+		contentEl.createEl("h2", { text: t("usage.title") });
+		contentEl.createEl("p", {
+			text: tWithParams("usage.today", {
+				used: status.used,
+				limit: status.limit,
+				remaining: status.remaining,
+			}),
+		});
+
+		if (history.length === 0) {
+			contentEl.createEl("p", { text: t("usage.noData") });
+			return;
+		}
+
+		const table = contentEl.createEl("table", {
+			cls: "kinopoisk-plugin__usage-table",
+		});
+		const headerRow = table.createEl("thead").createEl("tr");
+		headerRow.createEl("th", { text: t("usage.date") });
+		headerRow.createEl("th", { text: t("usage.total") });
+		headerRow.createEl("th", { text: t("usage.endpoints") });
+
+		const body = table.createEl("tbody");
+		for (const { day, usage } of history) {
+			const row = body.createEl("tr");
+			row.createEl("td", {
+				text: usage.exhausted ? `${day} ⛔` : day,
+			});
+			row.createEl("td", { text: String(usage.total) });
+
+			const endpointsCell = row.createEl("td");
+			Object.entries(usage.endpoints)
+				.sort(([, a], [, b]) => b - a)
+				.forEach(([endpoint, count]) => {
+					endpointsCell.createDiv({ text: `${endpoint}: ${count}` });
+				});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
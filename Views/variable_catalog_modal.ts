@@ -0,0 +1,164 @@
+/**
+ * variable_catalog_modal.ts
+ *
+ * Searchable list of template variables grouped by category.
+ * Shows value type and how variable is written in properties and note body,
+ * with examples from last fetched title. Chosen variable is inserted
+ * at editor cursor or copied when no note is open.
+ */
+
+import { MarkdownView, Notice, SuggestModal } from "obsidian";
+import ObsidianKinopoiskPlugin from "main";
+import { MovieShow } from "Models/MovieShow.model";
+import {
+	isListVariable,
+	TEMPLATE_VARIABLES,
+	TemplateVariable,
+} from "Models/TemplateVariable.model";
+import { DataFormatter } from "APIProvider/DataFormatter";
+import { SAMPLE_MOVIES } from "APIProvider/fixtureSamples";
+import { replaceVariableSyntax } from "Utils/utils";
+import { t, tWithParams } from "../i18n";
+
+const MAX_EXAMPLE_LENGTH = 120;
+
+export class VariableCatalogModal extends SuggestModal<TemplateVariable> {
+	private sample: MovieShow;
+	private suggestions: TemplateVariable[] = [];
+
+	constructor(plugin: ObsidianKinopoiskPlugin) {
+		super(plugin.app);
+
+		// Bundled sample until a title is fetched
+		this.sample =
+			plugin.lastMovieShow ??
+			new DataFormatter(() =>
+				plugin.getPeopleLimits()
+			).createMovieShowFrom(SAMPLE_MOVIES[0]);
+
+		this.setPlaceholder(t("variableCatalog.placeholder"));
+		this.setInstructions([
+			{ command: "↵", purpose: t("variableCatalog.insert") },
+			{
+				command: "",
+				purpose: tWithParams("variableCatalog.examplesFrom", {
+					name: this.sample.nameForFile,
+				}),
+			},
+		]);
+	}
+
+	// Filters variables by name, description or category
+	getSuggestions(query: string): TemplateVariable[] {
+		const searchQuery = query.trim().toLowerCase();
+
+		this.suggestions = TEMPLATE_VARIABLES.filter((variable) =>
+			[
+				variable.name,
+				this.getDescription(variable),
+				this.getCategoryName(variable),
+			].some((text) => text.toLowerCase().includes(searchQuery))
+		);
+		return this.suggestions;
+	}
+
+	// Renders variable with category heading before first item of category
+	renderSuggestion(variable: TemplateVariable, el: HTMLElement) {
+		const index = this.suggestions.indexOf(variable);
+		if (
+			index <= 0 ||
+			this.suggestions[index - 1].category !== variable.category
+		) {
+			el.createDiv({
+				cls: "kinopoisk-plugin__catalog-category",
+				text: this.getCategoryName(variable),
+			});
+		}
+
+		const header = el.createDiv({
+			cls: "kinopoisk-plugin__catalog-header",
+		});
+		header.createEl("code", { text: `{{${variable.name}}}` });
+		header.createEl("small", {
+			cls: "kinopoisk-plugin__catalog-type",
+			text: this.getTypeName(variable),
+		});
+
+		el.createDiv({
+			cls: "kinopoisk-plugin__catalog-description",
+			text: this.getDescription(variable),
+		});
+
+		const examples = el.createDiv({
+			cls: "kinopoisk-plugin__catalog-examples",
+		});
+		this.renderExample(
+			examples,
+			t("variableCatalog.frontmatter"),
+			this.renderFrontmatter(variable)
+		);
+		this.renderExample(
+			examples,
+			t("variableCatalog.body"),
+			replaceVariableSyntax(this.sample, `{{${variable.name}}}`)
+		);
+	}
+
+	// Inserts variable at cursor, copies it when no note is open
+	async onChooseSuggestion(variable: TemplateVariable) {
+		const placeholder = `{{${variable.name}}}`;
+		const editor =
+			this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+
+		if (editor) {
+			editor.replaceSelection(placeholder);
+			return;
+		}
+
+		await navigator.clipboard.writeText(placeholder);
+		new Notice(
+			tWithParams("variableCatalog.copied", { variable: placeholder })
+		);
+	}
+
+	// Renders variable as the only property of frontmatter
+	private renderFrontmatter(variable: TemplateVariable): string {
+		const rendered = replaceVariableSyntax(
+			this.sample,
+			`---\n${variable.name}: {{${variable.name}}}\n---\n`
+		);
+		return rendered.split("\n").slice(1, -1).join("\n");
+	}
+
+	private renderExample(
+		container: HTMLElement,
+		label: string,
+		value: string
+	) {
+		const row = container.createDiv();
+		row.createSpan({ text: `${label}: ` });
+
+		const example =
+			value.length > MAX_EXAMPLE_LENGTH
+				? `${value.slice(0, MAX_EXAMPLE_LENGTH)}…`
+				: value;
+		row.createEl("code", {
+			text: example.trim() ? example : t("variableCatalog.emptyExample"),
+		});
+	}
+
+	private getCategoryName(variable: TemplateVariable): string {
+		return t(`variableCatalog.categories.${variable.category}`);
+	}
+
+	private getTypeName(variable: TemplateVariable): string {
+		const type = t(`variableCatalog.types.${variable.type}`);
+		return isListVariable(variable)
+			? `${type}, ${t("variableCatalog.list")}`
+			: type;
+	}
+
+	private getDescription(variable: TemplateVariable): string {
+		return t(`variableCatalog.descriptions.${variable.name}`);
+	}
+}
@@ -0,0 +1,47 @@
+/**
+ * watch_choice_modal.ts
+ *
+ * Picker of watch diary value: watch status or personal rating.
+ * Current value of note is marked in the list.
+ */
+
+import { App, SuggestModal } from "obsidian";
+
+export interface WatchChoice<T> {
+	value: T;
+	label: string;
+}
+
+interface ChoiceCallback<T> {
+	(value: T): void;
+}
+
+export class WatchChoiceModal<T> extends SuggestModal<WatchChoice<T>> {
+	constructor(
+		app: App,
+		placeholder: string,
+		private choices: WatchChoice<T>[],
+		private currentValue: unknown,
+		private onChoose: ChoiceCallback<T>
+	) {
+		super(app);
+		this.setPlaceholder(placeholder);
+	}
+
+	getSuggestions(query: string): WatchChoice<T>[] {
+		const searchQuery = query.trim().toLowerCase();
+		return this.choices.filter((choice) =>
+			choice.label.toLowerCase().includes(searchQuery)
+		);
+	}
+
+	renderSuggestion(choice: WatchChoice<T>, el: HTMLElement) {
+		// Frontmatter may hold value as text, e.g. rating "8"
+		const isCurrent = String(choice.value) === String(this.currentValue);
+		el.createSpan({ text: isCurrent ? `✓ ${choice.label}` : choice.label });
+	}
+
+	onChooseSuggestion(choice: WatchChoice<T>) {
+		this.onChoose(choice.value);
+	}
+}
@@ -22,7 +22,6 @@ export interface Translations {
 		searchButton: string;
 		searching: string;
 		enterMovieName: string;
-		needApiToken: string;
 		loadingMovieInfo: string;
 		preparingImages: string;
 		movieInfoLoaded: string;
@@ -34,6 +33,30 @@ export interface Translations {
 		posterTooltipMissing: string;
 		posterTooltipEmptyLink: string;
 		posterTooltipInvalidLink: string;
+		retryingRequest: string;
+		filtersTitle: string;
+		filterYear: string;
+		filterFrom: string;
+		filterTo: string;
+		filterTypes: string;
+		filterGenres: string;
+		filterGenresPlaceholder: string;
+		filterCountries: string;
+		filterCountriesPlaceholder: string;
+		filterMinRating: string;
+		filterAgeRating: string;
+		filterAny: string;
+		loadMore: string;
+		loadingMore: string;
+		alreadyInVault: string;
+	};
+
+	contentTypes: {
+		movie: string;
+		"tv-series": string;
+		cartoon: string;
+		"animated-series": string;
+		anime: string;
 	};
 
 	suggesters: {
@@ -52,9 +75,13 @@ export interface Translations {
 		tokenRequired: string;
 		enterMovieTitle: string;
 		nothingFound: string;
+		nothingFoundWithFilters: string;
+		lookupNotSupported: string;
+		lookupNotFound: string;
 		invalidMovieId: string;
-		tokenRequiredForMovie: string;
 		movieInfoError: string;
+		invalidPersonId: string;
+		personInfoError: string;
 		tryChangeQuery: string;
 	};
 
@@ -102,6 +129,103 @@ export interface Translations {
 		downloadError: string;
 	};
 
+	cache: {
+		cleared: string;
+	};
+
+	usage: {
+		title: string;
+		today: string;
+		noData: string;
+		date: string;
+		total: string;
+		endpoints: string;
+		statusBarTooltip: string;
+		lowQuotaWarning: string;
+	};
+
+	refresh: {
+		title: string;
+		summary: string;
+		field: string;
+		currentValue: string;
+		newValue: string;
+		emptyValue: string;
+		noActiveNote: string;
+		noKinopoiskId: string;
+		noTemplateKeys: string;
+		upToDate: string;
+		updated: string;
+	};
+
+	duplicates: {
+		title: string;
+		description: string;
+		open: string;
+		refresh: string;
+		create: string;
+	};
+
+	bulkRefresh: {
+		folderPlaceholder: string;
+		noteFolders: string;
+		wholeVault: string;
+		alreadyRunning: string;
+		notRunning: string;
+		nothingToRefresh: string;
+		progress: string;
+		resuming: string;
+		interrupted: string;
+		stopped: string;
+		quotaExhausted: string;
+		summary: string;
+		reportTitle: string;
+		reportFileName: string;
+		reportFolders: string;
+		reportStarted: string;
+		reportFinished: string;
+		reportUpdated: string;
+		reportFailed: string;
+		reportSkipped: string;
+	};
+
+	templateFilters: {
+		minutes: string;
+		hoursMinutes: string;
+		unknownFilter: string;
+	};
+
+	templatePreview: {
+		title: string;
+		noTemplate: string;
+		sample: string;
+		bundledSample: string;
+		lastFetched: string;
+		properties: string;
+		note: string;
+		problems: string;
+		noProblems: string;
+		syntaxError: string;
+		unknownVariable: string;
+		didYouMean: string;
+		unknownFilter: string;
+		yamlError: string;
+	};
+
+	variableCatalog: {
+		placeholder: string;
+		insert: string;
+		examplesFrom: string;
+		frontmatter: string;
+		body: string;
+		list: string;
+		emptyExample: string;
+		copied: string;
+		categories: Record<string, string>;
+		types: Record<string, string>;
+		descriptions: Record<string, string>;
+	};
+
 	utils: {
 		unknownMovie: string;
 		copyPrefix: string;
@@ -109,9 +233,56 @@ export interface Translations {
 		templateReadError: string;
 	};
 
+	episodes: {
+		season: string;
+		episode: string;
+	};
+
+	personNotes: {
+		filmography: string;
+		result: string;
+		failed: string;
+	};
+
+	hubNotes: {
+		created: string;
+		rebuilt: string;
+		failed: string;
+		disabled: string;
+	};
+
+	franchise: {
+		fileName: string;
+		noRelated: string;
+		noYear: string;
+		import: string;
+		invalidId: string;
+	};
+
+	watchDiary: {
+		setStatus: string;
+		setRating: string;
+		logViewing: string;
+		statusPlaceholder: string;
+		ratingPlaceholder: string;
+		statuses: Record<string, string>;
+		statusSet: string;
+		ratingSet: string;
+		viewingLogged: string;
+		logHeading: string;
+		logTitle: string;
+		date: string;
+		comment: string;
+		commentPlaceholder: string;
+		log: string;
+	};
+
 	settings: {
+		provider: string;
+		providerDesc: string;
 		apiToken: string;
 		apiTokenDesc: string;
+		kinopoiskIdsTokenDesc: string;
 		getApiToken: string;
 		checkToken: string;
 		checking: string;
@@ -119,6 +290,36 @@ export interface Translations {
 		tokenInvalid: string;
 		tokenError: string;
 		enterToken: string;
+		tmdbToken: string;
+		tmdbTokenDesc: string;
+		omdbToken: string;
+		omdbTokenDesc: string;
+		requestsHeading: string;
+		requestsPerSecond: string;
+		requestsPerSecondDesc: string;
+		maxRetries: string;
+		maxRetriesDesc: string;
+		dailyRequestLimit: string;
+		dailyRequestLimitDesc: string;
+		quotaWarningThreshold: string;
+		quotaWarningThresholdDesc: string;
+		cacheHeading: string;
+		cacheEnabled: string;
+		cacheEnabledDesc: string;
+		cacheSearchTtl: string;
+		cacheSearchTtlDesc: string;
+		cacheMovieTtl: string;
+		cacheMovieTtlDesc: string;
+		cacheMaxEntries: string;
+		cacheMaxEntriesDesc: string;
+		clearCache: string;
+		clearCacheDesc: string;
+		fixturesHeading: string;
+		fixtureFolder: string;
+		fixtureFolderDesc: string;
+		fixtureFolderRequired: string;
+		fixtureRecord: string;
+		fixtureRecordDesc: string;
 		imagesHeading: string;
 		saveImagesLocally: string;
 		saveImagesLocallyDesc: string;
@@ -152,6 +353,50 @@ export interface Translations {
 		seriesTemplateFile: string;
 		seriesTemplateFileDesc: string;
 		seriesTemplateFilePlaceholder: string;
+		cartoonsHeading: string;
+		animeHeading: string;
+		animatedSeriesHeading: string;
+		typeFileName: string;
+		typeFileNameDesc: string;
+		typeFileLocation: string;
+		typeFileLocationDesc: string;
+		typeTemplateFile: string;
+		typeTemplateFileDesc: string;
+		peopleHeading: string;
+		peopleDesc: string;
+		peopleLimitDesc: string;
+		professions: Record<string, string>;
+		personNotesHeading: string;
+		personNotesEnabled: string;
+		personNotesEnabledDesc: string;
+		personNotesFolder: string;
+		personNotesFolderDesc: string;
+		personNotesFolderPlaceholder: string;
+		personTemplateFile: string;
+		personTemplateFileDesc: string;
+		personTemplateExample: string;
+		personNotesLimit: string;
+		personNotesLimitDesc: string;
+		hubNotesHeading: string;
+		hubNotesEnabled: string;
+		hubNotesEnabledDesc: string;
+		hubKinds: Record<string, string>;
+		hubFolder: string;
+		hubFolderDesc: string;
+		hubFolderPlaceholder: string;
+		hubTemplateFile: string;
+		hubTemplateFileDesc: string;
+		hubTemplateExample: string;
+		watchDiaryHeading: string;
+		watchDiaryDesc: string;
+		watchFields: Record<string, string>;
+		watchFieldDesc: string;
+		previewTemplate: string;
+		emptyValues: string;
+		emptyValuesDesc: string;
+		emptyValuesEmpty: string;
+		emptyValuesRemove: string;
+		emptyValuesNull: string;
 		language: string;
 		languageDesc: string;
 	};
@@ -169,11 +414,11 @@ const ru: Translations = {
 
 	modals: {
 		searchTitle: "🍿 Поиск фильма или сериала",
-		searchPlaceholder: "Поиск по ключевому слову",
+		searchPlaceholder: "Название, ссылка или ID (Кинопоиск, IMDb, TMDB)",
 		searchButton: "Найти",
 		searching: "Поиск...",
-		enterMovieName: "Введите название фильма или сериала для поиска",
-		needApiToken: "Необходимо указать API токен в настройках плагина",
+		enterMovieName:
+			"Введите название фильма или сериала либо задайте фильтры",
 		loadingMovieInfo: "Загружается информация о фильме...",
 		preparingImages: "Подготовка к скачиванию изображений...",
 		movieInfoLoaded: "Информация о фильме загружена!",
@@ -186,6 +431,31 @@ const ru: Translations = {
 		posterTooltipMissing: "Постер отсутствует",
 		posterTooltipEmptyLink: "Пустая ссылка на постер",
 		posterTooltipInvalidLink: "Некорректная ссылка на постер",
+		retryingRequest:
+			"Сервер ограничил запросы. Повтор через {seconds} с (попытка {attempt} из {max})...",
+		filtersTitle: "Фильтры",
+		filterYear: "Год",
+		filterFrom: "от",
+		filterTo: "до",
+		filterTypes: "Тип",
+		filterGenres: "Жанры",
+		filterGenresPlaceholder: "драма, комедия",
+		filterCountries: "Страны",
+		filterCountriesPlaceholder: "США, Франция",
+		filterMinRating: "Минимальный рейтинг",
+		filterAgeRating: "Возрастной рейтинг до",
+		filterAny: "Любой",
+		loadMore: "Загрузить ещё (страница {page} из {pages})",
+		loadingMore: "Загрузка...",
+		alreadyInVault: "✓ Уже есть в хранилище",
+	},
+
+	contentTypes: {
+		movie: "Фильм",
+		"tv-series": "Сериал",
+		cartoon: "Мультфильм",
+		"animated-series": "Анимационный сериал",
+		anime: "Аниме",
 	},
 
 	suggesters: {
@@ -205,9 +475,15 @@ const ru: Translations = {
 			"Необходимо указать действительный API токен в настройках плагина",
 		enterMovieTitle: "Введите название фильма или сериала для поиска",
 		nothingFound: 'По запросу "{query}" ничего не найдено.',
+		nothingFoundWithFilters:
+			"Ничего не найдено с выбранными фильтрами. Попробуйте ослабить фильтры.",
+		lookupNotSupported:
+			"Выбранный источник данных не умеет искать по ссылке {reference}. Смените источник в настройках или введите название.",
+		lookupNotFound: "Фильм {reference} не найден.",
 		invalidMovieId: "Неверный ID фильма",
-		tokenRequiredForMovie: "Необходимо указать действительный API токен",
 		movieInfoError: "Не удалось получить информацию о фильме",
+		invalidPersonId: "Неверный ID персоны",
+		personInfoError: "Не удалось получить информацию о персоне",
 		tryChangeQuery: "Попробуйте изменить поисковый запрос.",
 	},
 
@@ -270,6 +546,251 @@ const ru: Translations = {
 		downloadError: "Не удалось скачать",
 	},
 
+	cache: {
+		cleared: "Кэш Кинопоиска очищен",
+	},
+
+	usage: {
+		title: "Использование API Кинопоиска",
+		today: "Сегодня: использовано {used} из {limit}, осталось {remaining}",
+		noData: "За последние 30 дней запросов не было",
+		date: "Дата",
+		total: "Всего",
+		endpoints: "По методам",
+		statusBarTooltip:
+			"API Кинопоиска: использовано {used} из {limit} запросов за сегодня, осталось {remaining}",
+		lowQuotaWarning:
+			"API Кинопоиска: осталось запросов на сегодня — {remaining}",
+	},
+
+	refresh: {
+		title: "Обновление данных заметки",
+		summary: "Изменится полей: {count} в заметке «{file}»",
+		field: "Поле",
+		currentValue: "Сейчас",
+		newValue: "Станет",
+		emptyValue: "пусто",
+		noActiveNote: "Откройте заметку с фильмом или сериалом",
+		noKinopoiskId:
+			"В свойствах заметки нет ID Кинопоиска (kinopoiskId, id) или ссылки kinopoiskUrl",
+		noTemplateKeys: "В свойствах шаблона нет переменных, обновлять нечего",
+		upToDate: "Данные заметки актуальны",
+		updated: "Данные заметки обновлены",
+	},
+
+	duplicates: {
+		title: "Заметка уже существует",
+		description:
+			"Для «{name}» уже есть заметка с тем же ID Кинопоиска. Открыть или обновить её, либо всё равно создать новую?",
+		open: "Открыть",
+		refresh: "Обновить",
+		create: "Создать новую",
+	},
+
+	bulkRefresh: {
+		folderPlaceholder: "Выберите папку для обновления заметок",
+		noteFolders: "Папки фильмов и сериалов ({folders})",
+		wholeVault: "Всё хранилище",
+		alreadyRunning: "Массовое обновление уже выполняется",
+		notRunning: "Массовое обновление не выполняется",
+		nothingToRefresh: "В папках {folders} нет заметок с ID Кинопоиска",
+		progress: "Обновление заметок: {current} из {total}",
+		resuming: "Продолжение массового обновления, осталось заметок: {count}",
+		interrupted:
+			"Массовое обновление прервано, осталось заметок: {count}. Выполните команду обновления ещё раз, чтобы продолжить",
+		stopped:
+			"Массовое обновление приостановлено, осталось заметок: {count}",
+		quotaExhausted:
+			"Суточный лимит API исчерпан, массовое обновление приостановлено, осталось заметок: {count}. Продолжите после сброса лимита",
+		summary:
+			"Обновлено: {updated}, без изменений: {unchanged}, с ошибками: {failed}, пропущено: {skipped}",
+		reportTitle: "Отчёт об обновлении данных Кинопоиска",
+		reportFileName: "Отчёт об обновлении Кинопоиска",
+		reportFolders: "Папки",
+		reportStarted: "Начало",
+		reportFinished: "Окончание",
+		reportUpdated: "Обновлены",
+		reportFailed: "Ошибки",
+		reportSkipped: "Пропущены (нет ID Кинопоиска)",
+	},
+
+	templateFilters: {
+		minutes: "{minutes} мин",
+		hoursMinutes: "{hours} ч {minutes} мин",
+		unknownFilter:
+			"Неизвестный фильтр шаблона: {filters}. Оставлено без изменений: {placeholders}",
+	},
+
+	templatePreview: {
+		title: "Предпросмотр шаблона",
+		noTemplate: "Файл шаблона не выбран или не найден.",
+		sample: "Пример",
+		bundledSample: "{name} (встроенный пример)",
+		lastFetched: "{name} (последний загруженный)",
+		properties: "Свойства",
+		note: "Заметка",
+		problems: "Проблемы",
+		noProblems: "Проблем не найдено.",
+		syntaxError: "Строка {line}: {message}",
+		unknownVariable: "Неизвестная переменная {{{name}}}",
+		didYouMean:
+			"Неизвестная переменная {{{name}}}. Возможно, вы имели в виду {suggestions}?",
+		unknownFilter: "Неизвестный фильтр «{filter}» в {placeholder}",
+		yamlError: "Свойства не являются корректным YAML: {message}",
+	},
+
+	variableCatalog: {
+		placeholder: "Найдите переменную по имени или описанию",
+		insert: "вставить переменную",
+		examplesFrom: "Примеры: {name}",
+		frontmatter: "Свойства",
+		body: "Заметка",
+		list: "список",
+		emptyExample: "(пусто)",
+		copied: "{variable} скопировано в буфер обмена",
+		categories: {
+			basic: "Основная информация",
+			images: "Изображения",
+			classification: "Классификация",
+			people: "Участники проекта",
+			technical: "Технические характеристики",
+			ratings: "Рейтинги и голоса",
+			identifiers: "Внешние ссылки и идентификаторы",
+			additional: "Дополнительная информация",
+			finance: "Финансовая информация",
+			premieres: "Даты премьер",
+			releases: "Периоды выхода и рейтинги",
+			content: "Дополнительный контент",
+			production: "Производство и дистрибуция",
+			related: "Связанные фильмы",
+			fileNames: "Имена файлов",
+		},
+		types: {
+			text: "Текст",
+			number: "Число",
+			boolean: "Булево",
+			date: "Дата",
+			url: "URL",
+			markdown: "Markdown",
+			path: "Путь",
+			link: "Ссылка",
+		},
+		descriptions: {
+			id: "Уникальный идентификатор фильма в базе Кинопоиска",
+			name: "Основное русское название фильма/сериала",
+			alternativeName: "Альтернативное название (обычно оригинальное)",
+			year: "Год выхода фильма/сериала",
+			description: "Полное описание сюжета фильма",
+			shortDescription: "Краткое описание фильма (1-2 предложения)",
+			posterUrl: "Прямая ссылка на постер фильма",
+			coverUrl: "Прямая ссылка на обложку (широкое)",
+			logoUrl: "Прямая ссылка на логотип фильма",
+			posterMarkdown: "Готовая markdown-ссылка на постер",
+			coverMarkdown: "Готовая markdown-ссылка на обложку",
+			logoMarkdown: "Готовая markdown-ссылка на логотип",
+			posterPath: "Чистый путь/имя файла для постера",
+			coverPath: "Чистый путь/имя файла для обложки",
+			logoPath: "Чистый путь/имя файла для логотипа",
+			genres: "Жанры фильма",
+			genresLinks: "Жанры как ссылки Obsidian",
+			countries: "Страны производства фильма",
+			countriesLinks: "Страны как ссылки Obsidian",
+			type: "Тип контента (фильм, сериал, мультфильм)",
+			subType: "Подтип контента",
+			contentType:
+				"Ключ типа контента: movie, tv-series, cartoon, anime, animated-series",
+			director: "Режиссёры фильма",
+			directorsLinks: "Режиссёры как ссылки Obsidian",
+			actors: "Основные актёры фильма",
+			actorsLinks: "Актёры как ссылки Obsidian",
+			writers: "Сценаристы фильма",
+			writersLinks: "Сценаристы как ссылки Obsidian",
+			producers: "Продюсеры фильма",
+			producersLinks: "Продюсеры как ссылки Obsidian",
+			composers: "Композиторы",
+			composersLinks: "Композиторы как ссылки Obsidian",
+			operators: "Операторы",
+			operatorsLinks: "Операторы как ссылки Obsidian",
+			editors: "Монтажёры",
+			editorsLinks: "Монтажёры как ссылки Obsidian",
+			designers: "Художники",
+			designersLinks: "Художники как ссылки Obsidian",
+			voiceActors: "Актёры дубляжа",
+			voiceActorsLinks: "Актёры дубляжа как ссылки Obsidian",
+			actorsWithRoles: "Актёры с ролями",
+			actorsEnNames: "Английские имена актёров",
+			actorsUrls: "Страницы актёров на Кинопоиске",
+			directorsEnNames: "Английские имена режиссёров",
+			directorsUrls: "Страницы режиссёров на Кинопоиске",
+			actorsIds: "ID актёров на Кинопоиске",
+			directorsIds: "ID режиссёров на Кинопоиске",
+			movieLength: "Продолжительность фильма в минутах",
+			isSeries: "Является ли контент сериалом",
+			seriesLength: "Средняя продолжительность эпизода в минутах",
+			totalSeriesLength:
+				"Общая продолжительность всех эпизодов в минутах",
+			isComplete: "Завершён ли сериал",
+			seasonsCount: "Количество сезонов сериала",
+			seriesInSeasonCount: "Среднее количество эпизодов в сезоне",
+			episodesCount: "Общее количество эпизодов",
+			seasonEpisodesCounts: "Количество эпизодов каждого сезона",
+			episodesChecklist:
+				"Список эпизодов с флажками по сезонам, только источник Кинопоиск",
+			ratingKp: "Рейтинг Кинопоиска (0-10)",
+			ratingImdb: "Рейтинг IMDb (0-10)",
+			ratingTmdb: "Рейтинг TMDB (0-10), только источник TMDB",
+			ratingFilmCritics: "Рейтинг кинокритиков (0-10)",
+			ratingRussianFilmCritics: "Рейтинг российских кинокритиков (0-10)",
+			votesKp: "Количество голосов на Кинопоиске",
+			votesImdb: "Количество голосов на IMDb",
+			votesTmdb: "Количество голосов на TMDB",
+			votesFilmCritics: "Количество голосов кинокритиков",
+			votesRussianFilmCritics:
+				"Количество голосов российских кинокритиков",
+			kinopoiskUrl: "Прямая ссылка на страницу фильма на Кинопоиске",
+			imdbId: "Идентификатор фильма в базе IMDb",
+			tmdbId: "Идентификатор фильма в базе TMDb",
+			kpHDId: "Идентификатор в системе Кинопоиск HD",
+			slogan: "Рекламный слоган фильма",
+			ageRating: "Возрастное ограничение (годы)",
+			ratingMpaa: "Рейтинг MPAA (G, PG, PG-13, R, NC-17)",
+			budgetValue: "Сумма бюджета фильма",
+			budgetCurrency: "Валюта бюджета",
+			feesWorldValue: "Мировые сборы",
+			feesWorldCurrency: "Валюта мировых сборов",
+			feesRussiaValue: "Сборы в России",
+			feesRussiaCurrency: "Валюта сборов в России",
+			feesUsaValue: "Сборы в США",
+			feesUsaCurrency: "Валюта сборов в США",
+			premiereWorld: "Дата мировой премьеры (ГГГГ-ММ-ДД)",
+			premiereRussia: "Дата российской премьеры (ГГГГ-ММ-ДД)",
+			premiereDigital: "Дата цифровой премьеры (ГГГГ-ММ-ДД)",
+			premiereCinema: "Дата кинопремьеры (ГГГГ-ММ-ДД)",
+			releaseYearsStart: "Год начала выхода (для сериалов)",
+			releaseYearsEnd: "Год окончания выхода (для сериалов)",
+			top10: "Позиция в топ-10 (0 если не включён)",
+			top250: "Позиция в топ-250 (0 если не включён)",
+			facts: "Интересные факты о фильме (максимум 5)",
+			allNamesString: "Все известные названия фильма",
+			enName: "Официальное английское название",
+			networks: "ТВ-сети/каналы (для сериалов)",
+			networksLinks: "Сети как ссылки Obsidian",
+			productionCompanies: "Производственные компании",
+			productionCompaniesLinks: "Компании как ссылки Obsidian",
+			distributor: "Дистрибьютор фильма",
+			distributorRelease: "Дата выпуска дистрибьютора",
+			sequelsAndPrequels: "Названия сиквелов и приквелов",
+			sequelsAndPrequelsLinks: "Связанные фильмы как ссылки Obsidian",
+			sequelsAndPrequelsIds: "ID связанных фильмов на Кинопоиске",
+			sequelsAndPrequelsYears: "Годы выхода связанных фильмов",
+			sequelsAndPrequelsTypes: "Типы связанных фильмов",
+			sequelsAndPrequelsRatings: "Рейтинги Кинопоиска связанных фильмов",
+			nameForFile: "Название фильма, очищенное для имени файла",
+			alternativeNameForFile: "Альтернативное название для имени файла",
+			enNameForFile: "Английское название для имени файла",
+		},
+	},
+
 	utils: {
 		unknownMovie: "Неизвестный фильм",
 		copyPrefix: "Копия",
@@ -277,10 +798,64 @@ const ru: Translations = {
 		templateReadError: "Не удалось прочитать файл шаблона",
 	},
 
+	episodes: {
+		season: "Сезон {number}",
+		episode: "Эпизод {number}",
+	},
+
+	personNotes: {
+		filmography: "Фильмография",
+		result: "Заметки о людях: создано {created}, обновлено {updated}.",
+		failed: "Ошибок: {failed}.",
+	},
+
+	hubNotes: {
+		created: "Создано заметок-хабов: {created}.",
+		rebuilt: "Заметки-хабы: создано {created}, обновлено {updated}.",
+		failed: "Ошибок: {failed}.",
+		disabled: "Заметки-хабы выключены в настройках плагина.",
+	},
+
+	franchise: {
+		fileName: "{name} (франшиза)",
+		noRelated: "У этого фильма нет сиквелов и приквелов на Кинопоиске.",
+		noYear: "????",
+		import: "Импортировать",
+		invalidId: "Ссылка импорта не содержит ID Кинопоиска.",
+	},
+
+	watchDiary: {
+		setStatus: "Статус просмотра",
+		setRating: "Моя оценка",
+		logViewing: "Записать просмотр",
+		statusPlaceholder: "Выберите статус просмотра...",
+		ratingPlaceholder: "Выберите оценку...",
+		statuses: {
+			want: "Хочу посмотреть",
+			watching: "Смотрю",
+			watched: "Просмотрено",
+			dropped: "Брошено",
+		},
+		statusSet: "Статус: {status}",
+		ratingSet: "Оценка: {rating}",
+		viewingLogged: "Просмотр {date} записан",
+		logHeading: "Журнал просмотров",
+		logTitle: "Записать просмотр",
+		date: "Дата",
+		comment: "Комментарий",
+		commentPlaceholder: "Необязательно",
+		log: "Записать",
+	},
+
 	settings: {
+		provider: "Источник данных",
+		providerDesc:
+			"Сервис, в котором выполняется поиск и загружается информация о фильмах. Для каждого источника нужен свой токен.",
 		apiToken: "API Токен",
 		apiTokenDesc:
 			"Вам нужно получить API токен для использования этого плагина. Выберите бесплатный план и следуйте инструкциям.",
+		kinopoiskIdsTokenDesc:
+			"Токен Кинопоиска для обновления заметок, заметок о франшизах и ссылок импорта: они загружают данные по ID Кинопоиска при любом источнике данных.",
 		getApiToken: "Получить API Токен",
 		checkToken: "Проверить токен",
 		checking: "Проверяем...",
@@ -288,13 +863,57 @@ const ru: Translations = {
 		tokenInvalid: "❌ Токен недействителен. Проверьте правильность токена.",
 		tokenError: "❌ Ошибка при проверке токена. Попробуйте позже.",
 		enterToken: "Введите API токен для проверки",
+		tmdbToken: "Токен TMDB",
+		tmdbTokenDesc:
+			"API ключ или токен доступа (API Read Access Token) из настроек аккаунта TMDB.",
+		omdbToken: "Ключ OMDb",
+		omdbTokenDesc:
+			"API ключ OMDb. Бесплатный ключ приходит на почту после регистрации.",
+		requestsHeading: "Запросы",
+		requestsPerSecond: "Запросов в секунду",
+		requestsPerSecondDesc:
+			"Максимальная частота запросов к API. Запросы сверх лимита ждут в очереди. 0 — без ограничения.",
+		maxRetries: "Повторные попытки",
+		maxRetriesDesc:
+			"Сколько раз повторять запрос при ответах 429, 502, 503 и 504. Паузы между попытками растут экспоненциально.",
+		dailyRequestLimit: "Суточный лимит запросов",
+		dailyRequestLimitDesc:
+			"Количество запросов в сутки по вашему тарифу kinopoisk.dev. Лимит обновляется в полночь по московскому времени.",
+		quotaWarningThreshold: "Порог предупреждения",
+		quotaWarningThresholdDesc:
+			"Предупреждать, когда остаётся столько запросов или меньше.",
+		cacheHeading: "Кэш",
+		cacheEnabled: "Кэшировать ответы API",
+		cacheEnabledDesc:
+			"Сохранять результаты поиска и информацию о фильмах на диске, чтобы не тратить суточный лимит запросов. Кэш работает и без подключения к интернету.",
+		cacheSearchTtl: "Срок хранения поиска (часы)",
+		cacheSearchTtlDesc:
+			"Сколько часов хранить результаты поиска. 0 — не использовать кэш для поиска.",
+		cacheMovieTtl: "Срок хранения информации о фильмах (часы)",
+		cacheMovieTtlDesc:
+			"Сколько часов хранить подробную информацию о фильмах и сериалах.",
+		cacheMaxEntries: "Максимальный размер кэша",
+		cacheMaxEntriesDesc:
+			"Количество сохраняемых ответов. Давно не использованные записи удаляются первыми.",
+		clearCache: "Очистить кэш",
+		clearCacheDesc: "Записей в кэше: {count}",
+		fixturesHeading: "Офлайн-данные",
+		fixtureFolder: "Папка с записанными ответами",
+		fixtureFolderDesc:
+			"Ответы API для источника «Fixtures (offline)». Если нужного фильма в папке нет, используются встроенные примеры из Example Vault.",
+		fixtureFolderRequired:
+			"Укажите папку с записанными ответами, чтобы включить запись или источник «Fixtures (offline)».",
+		fixtureRecord: "Записывать ответы",
+		fixtureRecordDesc:
+			"Сохранять реальные ответы Кинопоиска в папку, чтобы потом открывать их без сети и токена.",
 		imagesHeading: "Изображения",
 		saveImagesLocally: "Сохранять изображения локально",
 		saveImagesLocallyDesc:
 			"Скачивать и сохранять изображения в локальную папку вместо использования веб-ссылок.",
 		imagesFolder: "Папка для изображений",
-		imagesFolderDesc: "Папка, где будут сохранены скачанные изображения.",
-		imagesFolderPlaceholder: "Например: attachments/kinopoisk",
+		imagesFolderDesc:
+			"Папка, где будут сохранены скачанные изображения. Можно использовать переменные шаблона.",
+		imagesFolderPlaceholder: "Например: attachments/kinopoisk/{{year}}",
 		savePosterImage: "Сохранять постеры",
 		savePosterImageDesc: "Скачивать и сохранять постеры фильмов/сериалов.",
 		saveCoverImage: "Сохранять обложки",
@@ -307,8 +926,9 @@ const ru: Translations = {
 		movieFileNameDesc: "Введите формат имени файла для фильмов.",
 		movieFileNamePlaceholder: "Например: {{nameForFile}} ({{year}})",
 		movieFileLocation: "Расположение файлов фильмов",
-		movieFileLocationDesc: "Новые заметки о фильмах будут размещены здесь.",
-		movieFileLocationPlaceholder: "Например: папка1/папка2",
+		movieFileLocationDesc:
+			"Новые заметки о фильмах будут размещены здесь. Можно использовать переменные шаблона.",
+		movieFileLocationPlaceholder: "Например: Фильмы/{{year}}",
 		movieTemplateFile: "Файл шаблона для фильмов",
 		movieTemplateFileDesc: "Файлы будут доступны как шаблоны.",
 		movieTemplateFilePlaceholder: "Например: templates/template-file",
@@ -319,11 +939,86 @@ const ru: Translations = {
 		seriesFileNamePlaceholder: "Например: {{nameForFile}} ({{year}})",
 		seriesFileLocation: "Расположение файлов сериалов",
 		seriesFileLocationDesc:
-			"Новые заметки о сериалах будут размещены здесь.",
-		seriesFileLocationPlaceholder: "Например: папка1/папка2",
+			"Новые заметки о сериалах будут размещены здесь. Можно использовать переменные шаблона.",
+		seriesFileLocationPlaceholder: "Например: Сериалы/{{genres|first}}",
 		seriesTemplateFile: "Файл шаблона для сериалов",
 		seriesTemplateFileDesc: "Файлы будут доступны как шаблоны.",
 		seriesTemplateFilePlaceholder: "Например: templates/template-file",
+		cartoonsHeading: "Мультфильмы",
+		animeHeading: "Аниме",
+		animatedSeriesHeading: "Анимационные сериалы",
+		typeFileName: "Имя файла",
+		typeFileNameDesc:
+			"Оставьте пустым, чтобы использовать формат фильмов или сериалов.",
+		typeFileLocation: "Расположение файлов",
+		typeFileLocationDesc:
+			"Оставьте пустым, чтобы использовать папку фильмов или сериалов.",
+		typeTemplateFile: "Файл шаблона",
+		typeTemplateFileDesc:
+			"Оставьте пустым, чтобы использовать шаблон фильмов или сериалов.",
+		peopleHeading: "Участники",
+		peopleDesc: "Сколько человек каждой профессии сохранять в заметке.",
+		peopleLimitDesc: "Максимальное число человек, 0 — не сохранять.",
+		professions: {
+			director: "Режиссёры",
+			actor: "Актёры",
+			writer: "Сценаристы",
+			producer: "Продюсеры",
+			composer: "Композиторы",
+			operator: "Операторы",
+			editor: "Монтажёры",
+			designer: "Художники",
+			voice_actor: "Актёры дубляжа",
+		},
+		personNotesHeading: "Заметки о людях",
+		personNotesEnabled: "Создавать заметки о людях",
+		personNotesEnabledDesc:
+			"После создания заметки о фильме создавать или дополнять заметки о режиссёрах и актёрах.",
+		personNotesFolder: "Папка заметок о людях",
+		personNotesFolderDesc: "Новые заметки о людях будут размещены здесь.",
+		personNotesFolderPlaceholder: "Например: Люди",
+		personTemplateFile: "Файл шаблона для людей",
+		personTemplateFileDesc:
+			"Шаблон новых заметок о людях. Фильм добавляется в раздел фильмографии.",
+		personTemplateExample: "Пример шаблона",
+		personNotesLimit: "Людей на фильм",
+		personNotesLimitDesc:
+			"Сколько заметок о людях обрабатывать для одного фильма: сначала режиссёры, затем актёры. Каждая новая заметка — ещё один запрос к API.",
+		hubNotesHeading: "Заметки-хабы",
+		hubNotesEnabled: "Создавать заметки-хабы",
+		hubNotesEnabledDesc:
+			"После создания заметки о фильме создавать недостающие заметки о его жанрах, странах, телеканалах и студиях.",
+		hubKinds: {
+			genre: "жанров",
+			country: "стран",
+			network: "телеканалов",
+			studio: "студий",
+		},
+		hubFolder: "Папка заметок {kind}",
+		hubFolderDesc: "Новые заметки-хабы будут размещены здесь.",
+		hubFolderPlaceholder: "Например: Жанры",
+		hubTemplateFile: "Файл шаблона {kind}",
+		hubTemplateFileDesc:
+			"Шаблон заметок-хабов. Без шаблона заметка содержит список фильмов.",
+		hubTemplateExample: "Пример шаблона",
+		watchDiaryHeading: "Дневник просмотров",
+		watchDiaryDesc:
+			"Свойства, которые заполняют команды статуса просмотра, оценки и журнала просмотров.",
+		watchFields: {
+			status: "Свойство статуса",
+			rating: "Свойство моей оценки",
+			dates: "Свойство дат просмотра",
+			rewatches: "Свойство числа пересмотров",
+		},
+		watchFieldDesc:
+			"Имя свойства во frontmatter, например для дашбордов Dataview.",
+		previewTemplate: "Предпросмотр",
+		emptyValues: "Пустые свойства",
+		emptyValuesDesc:
+			"Что делать со свойствами, для которых у фильма нет данных.",
+		emptyValuesEmpty: "Оставить пустыми",
+		emptyValuesRemove: "Удалить свойство",
+		emptyValuesNull: "Записать null",
 		language: "Язык интерфейса",
 		languageDesc: "Выберите язык интерфейса плагина.",
 	},
@@ -341,11 +1036,10 @@ const en: Translations = {
 
 	modals: {
 		searchTitle: "🍿 Search movie or TV show",
-		searchPlaceholder: "Search by keyword",
+		searchPlaceholder: "Title, link or ID (Kinopoisk, IMDb, TMDB)",
 		searchButton: "Search",
 		searching: "Searching...",
-		enterMovieName: "Enter movie or TV show name to search",
-		needApiToken: "API token must be specified in plugin settings",
+		enterMovieName: "Enter movie or TV show name, or set filters",
 		loadingMovieInfo: "Loading movie information...",
 		preparingImages: "Preparing to download images...",
 		movieInfoLoaded: "Movie information loaded!",
@@ -358,6 +1052,31 @@ const en: Translations = {
 		posterTooltipMissing: "Poster missing",
 		posterTooltipEmptyLink: "Empty poster link",
 		posterTooltipInvalidLink: "Invalid poster link",
+		retryingRequest:
+			"Server is limiting requests. Retrying in {seconds} s (attempt {attempt} of {max})...",
+		filtersTitle: "Filters",
+		filterYear: "Year",
+		filterFrom: "from",
+		filterTo: "to",
+		filterTypes: "Type",
+		filterGenres: "Genres",
+		filterGenresPlaceholder: "драма, комедия",
+		filterCountries: "Countries",
+		filterCountriesPlaceholder: "США, Франция",
+		filterMinRating: "Minimum rating",
+		filterAgeRating: "Age rating up to",
+		filterAny: "Any",
+		loadMore: "Load more results (page {page} of {pages})",
+		loadingMore: "Loading...",
+		alreadyInVault: "✓ Already in vault",
+	},
+
+	contentTypes: {
+		movie: "Movie",
+		"tv-series": "TV series",
+		cartoon: "Cartoon",
+		"animated-series": "Animated series",
+		anime: "Anime",
 	},
 
 	suggesters: {
@@ -376,9 +1095,15 @@ const en: Translations = {
 		tokenRequired: "Valid API token must be specified in plugin settings",
 		enterMovieTitle: "Enter movie or TV show title to search",
 		nothingFound: 'Nothing found for query "{query}".',
+		nothingFoundWithFilters:
+			"Nothing matches the selected filters. Try relaxing the filters.",
+		lookupNotSupported:
+			"Selected data source can't look up {reference}. Change the source in settings or enter a title.",
+		lookupNotFound: "Movie {reference} not found.",
 		invalidMovieId: "Invalid movie ID",
-		tokenRequiredForMovie: "Valid API token must be specified",
 		movieInfoError: "Failed to get movie information",
+		invalidPersonId: "Invalid person ID",
+		personInfoError: "Failed to get person information",
 		tryChangeQuery: "Try changing the search query.",
 	},
 
@@ -436,6 +1161,247 @@ const en: Translations = {
 		downloadError: "Failed to download",
 	},
 
+	cache: {
+		cleared: "Kinopoisk cache cleared",
+	},
+
+	usage: {
+		title: "Kinopoisk API usage",
+		today: "Today: used {used} of {limit}, {remaining} left",
+		noData: "No requests in the last 30 days",
+		date: "Date",
+		total: "Total",
+		endpoints: "By endpoint",
+		statusBarTooltip:
+			"Kinopoisk API: used {used} of {limit} requests today, {remaining} left",
+		lowQuotaWarning: "Kinopoisk API: {remaining} requests left for today",
+	},
+
+	refresh: {
+		title: "Update note data",
+		summary: "{count} fields will change in “{file}”",
+		field: "Field",
+		currentValue: "Current",
+		newValue: "New",
+		emptyValue: "empty",
+		noActiveNote: "Open a movie or TV show note",
+		noKinopoiskId:
+			"Note properties have no Kinopoisk ID (kinopoiskId, id) or kinopoiskUrl link",
+		noTemplateKeys:
+			"Template properties have no variables, nothing to update",
+		upToDate: "Note data is up to date",
+		updated: "Note data updated",
+	},
+
+	duplicates: {
+		title: "Note already exists",
+		description:
+			"“{name}” already has a note with the same Kinopoisk ID. Open or refresh it, or create a new one anyway?",
+		open: "Open",
+		refresh: "Refresh",
+		create: "Create new",
+	},
+
+	bulkRefresh: {
+		folderPlaceholder: "Choose folder with notes to refresh",
+		noteFolders: "Movie and series folders ({folders})",
+		wholeVault: "Entire vault",
+		alreadyRunning: "Bulk refresh is already running",
+		notRunning: "Bulk refresh is not running",
+		nothingToRefresh: "No notes with Kinopoisk ID found in {folders}",
+		progress: "Refreshing notes: {current} of {total}",
+		resuming: "Resuming bulk refresh, {count} notes left",
+		interrupted:
+			"Bulk refresh was interrupted with {count} notes left. Run the refresh command again to continue",
+		stopped: "Bulk refresh paused with {count} notes left",
+		quotaExhausted:
+			"Daily API quota is exhausted, bulk refresh paused with {count} notes left. Continue after the limit resets",
+		summary:
+			"Updated: {updated}, unchanged: {unchanged}, failed: {failed}, skipped: {skipped}",
+		reportTitle: "Kinopoisk data refresh report",
+		reportFileName: "Kinopoisk refresh report",
+		reportFolders: "Folders",
+		reportStarted: "Started",
+		reportFinished: "Finished",
+		reportUpdated: "Updated",
+		reportFailed: "Failed",
+		reportSkipped: "Skipped (no Kinopoisk ID)",
+	},
+
+	templateFilters: {
+		minutes: "{minutes} min",
+		hoursMinutes: "{hours} h {minutes} min",
+		unknownFilter:
+			"Unknown template filter: {filters}. Left as is: {placeholders}",
+	},
+
+	templatePreview: {
+		title: "Template preview",
+		noTemplate: "Template file is not set or not found.",
+		sample: "Sample",
+		bundledSample: "{name} (bundled sample)",
+		lastFetched: "{name} (last fetched)",
+		properties: "Properties",
+		note: "Note",
+		problems: "Problems",
+		noProblems: "No problems found.",
+		syntaxError: "Line {line}: {message}",
+		unknownVariable: "Unknown variable {{{name}}}",
+		didYouMean: "Unknown variable {{{name}}}. Did you mean {suggestions}?",
+		unknownFilter: 'Unknown filter "{filter}" in {placeholder}',
+		yamlError: "Properties are not valid YAML: {message}",
+	},
+
+	variableCatalog: {
+		placeholder: "Find variable by name or description",
+		insert: "insert variable",
+		examplesFrom: "Examples: {name}",
+		frontmatter: "Properties",
+		body: "Note",
+		list: "list",
+		emptyExample: "(empty)",
+		copied: "Copied {variable} to clipboard",
+		categories: {
+			basic: "Basic information",
+			images: "Images",
+			classification: "Classification",
+			people: "Project participants",
+			technical: "Technical specifications",
+			ratings: "Ratings and votes",
+			identifiers: "External links and identifiers",
+			additional: "Additional information",
+			finance: "Financial information",
+			premieres: "Premiere dates",
+			releases: "Release periods and rankings",
+			content: "Additional content",
+			production: "Production and distribution",
+			related: "Related films",
+			fileNames: "File names",
+		},
+		types: {
+			text: "Text",
+			number: "Number",
+			boolean: "Boolean",
+			date: "Date",
+			url: "URL",
+			markdown: "Markdown",
+			path: "Path",
+			link: "Link",
+		},
+		descriptions: {
+			id: "Unique film identifier in Kinopoisk database",
+			name: "Main Russian film/series title",
+			alternativeName: "Alternative title (usually original)",
+			year: "Film/series release year",
+			description: "Full film plot description",
+			shortDescription: "Brief film description (1-2 sentences)",
+			posterUrl: "Direct link to film poster",
+			coverUrl: "Direct link to cover (wide image)",
+			logoUrl: "Direct link to film logo",
+			posterMarkdown: "Ready markdown link to poster",
+			coverMarkdown: "Ready markdown link to cover",
+			logoMarkdown: "Ready markdown link to logo",
+			posterPath: "Clean path/filename for poster",
+			coverPath: "Clean path/filename for cover",
+			logoPath: "Clean path/filename for logo",
+			genres: "Film genres",
+			genresLinks: "Genres as Obsidian links",
+			countries: "Film production countries",
+			countriesLinks: "Countries as Obsidian links",
+			type: "Content type (film, series, cartoon)",
+			subType: "Content subtype",
+			contentType:
+				"Content type key: movie, tv-series, cartoon, anime, animated-series",
+			director: "Film directors",
+			directorsLinks: "Directors as Obsidian links",
+			actors: "Main film actors",
+			actorsLinks: "Actors as Obsidian links",
+			writers: "Film screenwriters",
+			writersLinks: "Screenwriters as Obsidian links",
+			producers: "Film producers",
+			producersLinks: "Producers as Obsidian links",
+			composers: "Composers",
+			composersLinks: "Composers as Obsidian links",
+			operators: "Cinematographers",
+			operatorsLinks: "Cinematographers as Obsidian links",
+			editors: "Film editors",
+			editorsLinks: "Editors as Obsidian links",
+			designers: "Production designers",
+			designersLinks: "Designers as Obsidian links",
+			voiceActors: "Voice actors",
+			voiceActorsLinks: "Voice actors as Obsidian links",
+			actorsWithRoles: "Actors with character names",
+			actorsEnNames: "English names of actors",
+			actorsUrls: "Kinopoisk pages of actors",
+			directorsEnNames: "English names of directors",
+			directorsUrls: "Kinopoisk pages of directors",
+			actorsIds: "Kinopoisk IDs of actors",
+			directorsIds: "Kinopoisk IDs of directors",
+			movieLength: "Film duration in minutes",
+			isSeries: "Whether content is a series",
+			seriesLength: "Average episode duration in minutes",
+			totalSeriesLength: "Total duration of all episodes in minutes",
+			isComplete: "Whether series is completed",
+			seasonsCount: "Number of series seasons",
+			seriesInSeasonCount: "Average number of episodes per season",
+			episodesCount: "Total number of episodes",
+			seasonEpisodesCounts: "Number of episodes in each season",
+			episodesChecklist:
+				"Episode checklist grouped by season, Kinopoisk source only",
+			ratingKp: "Kinopoisk rating (0-10)",
+			ratingImdb: "IMDb rating (0-10)",
+			ratingTmdb: "TMDB rating (0-10), TMDB source only",
+			ratingFilmCritics: "Film critics rating (0-10)",
+			ratingRussianFilmCritics: "Russian film critics rating (0-10)",
+			votesKp: "Number of votes on Kinopoisk",
+			votesImdb: "Number of votes on IMDb",
+			votesTmdb: "Number of votes on TMDB",
+			votesFilmCritics: "Number of film critics votes",
+			votesRussianFilmCritics: "Number of Russian film critics votes",
+			kinopoiskUrl: "Direct link to film page on Kinopoisk",
+			imdbId: "Film identifier in IMDb database",
+			tmdbId: "Film identifier in TMDb database",
+			kpHDId: "Identifier in Kinopoisk HD system",
+			slogan: "Film promotional slogan",
+			ageRating: "Age restriction (years)",
+			ratingMpaa: "MPAA rating (G, PG, PG-13, R, NC-17)",
+			budgetValue: "Film budget amount",
+			budgetCurrency: "Budget currency",
+			feesWorldValue: "Worldwide box office",
+			feesWorldCurrency: "Worldwide box office currency",
+			feesRussiaValue: "Russia box office",
+			feesRussiaCurrency: "Russia box office currency",
+			feesUsaValue: "USA box office",
+			feesUsaCurrency: "USA box office currency",
+			premiereWorld: "World premiere date (YYYY-MM-DD)",
+			premiereRussia: "Russia premiere date (YYYY-MM-DD)",
+			premiereDigital: "Digital premiere date (YYYY-MM-DD)",
+			premiereCinema: "Cinema premiere date (YYYY-MM-DD)",
+			releaseYearsStart: "Release start year (for series)",
+			releaseYearsEnd: "Release end year (for series)",
+			top10: "Position in top 10 (0 if not included)",
+			top250: "Position in top 250 (0 if not included)",
+			facts: "Interesting facts about the film (maximum 5)",
+			allNamesString: "All known film titles",
+			enName: "Official English title",
+			networks: "TV networks/channels (for series)",
+			networksLinks: "Networks as Obsidian links",
+			productionCompanies: "Production companies",
+			productionCompaniesLinks: "Companies as Obsidian links",
+			distributor: "Film distributor",
+			distributorRelease: "Distributor release date",
+			sequelsAndPrequels: "Sequel and prequel titles",
+			sequelsAndPrequelsLinks: "Related films as Obsidian links",
+			sequelsAndPrequelsIds: "Kinopoisk IDs of related films",
+			sequelsAndPrequelsYears: "Release years of related films",
+			sequelsAndPrequelsTypes: "Types of related films",
+			sequelsAndPrequelsRatings: "Kinopoisk ratings of related films",
+			nameForFile: "Film title cleaned for use in file name",
+			alternativeNameForFile: "Alternative title for file name",
+			enNameForFile: "English title for file name",
+		},
+	},
+
 	utils: {
 		unknownMovie: "Unknown Movie",
 		copyPrefix: "Copy",
@@ -443,10 +1409,64 @@ const en: Translations = {
 		templateReadError: "Failed to read template file",
 	},
 
+	episodes: {
+		season: "Season {number}",
+		episode: "Episode {number}",
+	},
+
+	personNotes: {
+		filmography: "Filmography",
+		result: "Person notes: {created} created, {updated} updated.",
+		failed: "{failed} failed.",
+	},
+
+	hubNotes: {
+		created: "Hub notes created: {created}.",
+		rebuilt: "Hub notes: {created} created, {updated} updated.",
+		failed: "{failed} failed.",
+		disabled: "Hub notes are turned off in plugin settings.",
+	},
+
+	franchise: {
+		fileName: "{name} (franchise)",
+		noRelated: "This title has no sequels or prequels on Kinopoisk.",
+		noYear: "????",
+		import: "Import",
+		invalidId: "Import link has no Kinopoisk ID.",
+	},
+
+	watchDiary: {
+		setStatus: "Watch status",
+		setRating: "Personal rating",
+		logViewing: "Log a viewing",
+		statusPlaceholder: "Choose watch status...",
+		ratingPlaceholder: "Choose rating...",
+		statuses: {
+			want: "Want to watch",
+			watching: "Watching",
+			watched: "Watched",
+			dropped: "Dropped",
+		},
+		statusSet: "Status: {status}",
+		ratingSet: "Rating: {rating}",
+		viewingLogged: "Viewing on {date} logged",
+		logHeading: "Viewing log",
+		logTitle: "Log a viewing",
+		date: "Date",
+		comment: "Comment",
+		commentPlaceholder: "Optional",
+		log: "Log",
+	},
+
 	settings: {
+		provider: "Data source",
+		providerDesc:
+			"Service used to search and load movie information. Each source needs its own token.",
 		apiToken: "API Token",
 		apiTokenDesc:
 			"You need to get API token to use this plugin. Choose free plan and follow steps.",
+		kinopoiskIdsTokenDesc:
+			"Kinopoisk token for note refresh, franchise notes and import links: they load data by Kinopoisk ID whatever source is selected.",
 		getApiToken: "Get API Token",
 		checkToken: "Check Token",
 		checking: "Checking...",
@@ -454,13 +1474,57 @@ const en: Translations = {
 		tokenInvalid: "❌ Token is invalid. Please check your token.",
 		tokenError: "❌ Error checking token. Please try again later.",
 		enterToken: "Enter API token to check",
+		tmdbToken: "TMDB Token",
+		tmdbTokenDesc:
+			"API key or API Read Access Token from your TMDB account settings.",
+		omdbToken: "OMDb Key",
+		omdbTokenDesc:
+			"OMDb API key. Free key is sent by email after registration.",
+		requestsHeading: "Requests",
+		requestsPerSecond: "Requests per second",
+		requestsPerSecondDesc:
+			"Maximum API request rate. Requests over the limit wait in a queue. 0 means no limit.",
+		maxRetries: "Retry attempts",
+		maxRetriesDesc:
+			"How many times to retry a request after 429, 502, 503 and 504 responses. Delays between attempts grow exponentially.",
+		dailyRequestLimit: "Daily request limit",
+		dailyRequestLimitDesc:
+			"Requests per day included in your kinopoisk.dev plan. The limit resets at midnight Moscow time.",
+		quotaWarningThreshold: "Warning threshold",
+		quotaWarningThresholdDesc:
+			"Warn when this many requests or fewer are left.",
+		cacheHeading: "Cache",
+		cacheEnabled: "Cache API responses",
+		cacheEnabledDesc:
+			"Store search results and movie details on disk to save your daily request quota. Cached data also works offline.",
+		cacheSearchTtl: "Search results lifetime (hours)",
+		cacheSearchTtlDesc:
+			"How many hours to keep search results. 0 disables caching for search.",
+		cacheMovieTtl: "Movie details lifetime (hours)",
+		cacheMovieTtlDesc:
+			"How many hours to keep detailed movie and TV series information.",
+		cacheMaxEntries: "Maximum cache size",
+		cacheMaxEntriesDesc:
+			"Number of stored responses. Least recently used entries are removed first.",
+		clearCache: "Clear cache",
+		clearCacheDesc: "Cached entries: {count}",
+		fixturesHeading: "Offline data",
+		fixtureFolder: "Recorded responses folder",
+		fixtureFolderDesc:
+			'API responses for the "Fixtures (offline)" source. Bundled samples from Example Vault are used when a movie is not in the folder.',
+		fixtureFolderRequired:
+			'Set the recorded responses folder to turn on recording or the "Fixtures (offline)" source.',
+		fixtureRecord: "Record responses",
+		fixtureRecordDesc:
+			"Save real Kinopoisk responses to the folder to replay them later without network and token.",
 		imagesHeading: "Images",
 		saveImagesLocally: "Save images locally",
 		saveImagesLocallyDesc:
 			"Download and save images to local folder instead of using web URLs.",
 		imagesFolder: "Images folder",
-		imagesFolderDesc: "Folder where downloaded images will be saved.",
-		imagesFolderPlaceholder: "Example: attachments/kinopoisk",
+		imagesFolderDesc:
+			"Folder where downloaded images will be saved. Template variables are supported.",
+		imagesFolderPlaceholder: "Example: attachments/kinopoisk/{{year}}",
 		savePosterImage: "Save poster images",
 		savePosterImageDesc: "Download and save movie/series poster images.",
 		saveCoverImage: "Save cover/backdrop images",
@@ -473,8 +1537,9 @@ const en: Translations = {
 		movieFileNameDesc: "Enter the movie file name format.",
 		movieFileNamePlaceholder: "Example: {{nameForFile}} ({{year}})",
 		movieFileLocation: "Movie file location",
-		movieFileLocationDesc: "New movie notes will be placed here.",
-		movieFileLocationPlaceholder: "Example: folder1/folder2",
+		movieFileLocationDesc:
+			"New movie notes will be placed here. Template variables are supported.",
+		movieFileLocationPlaceholder: "Example: Movies/{{year}}",
 		movieTemplateFile: "Movie template file",
 		movieTemplateFileDesc: "Files will be available as templates.",
 		movieTemplateFilePlaceholder: "Example: templates/template-file",
@@ -484,11 +1549,87 @@ const en: Translations = {
 		seriesFileNameDesc: "Enter the TV series file name format.",
 		seriesFileNamePlaceholder: "Example: {{nameForFile}} ({{year}})",
 		seriesFileLocation: "TV series file location",
-		seriesFileLocationDesc: "New TV series notes will be placed here.",
-		seriesFileLocationPlaceholder: "Example: folder1/folder2",
+		seriesFileLocationDesc:
+			"New TV series notes will be placed here. Template variables are supported.",
+		seriesFileLocationPlaceholder: "Example: Series/{{genres|first}}",
 		seriesTemplateFile: "TV series template file",
 		seriesTemplateFileDesc: "Files will be available as templates.",
 		seriesTemplateFilePlaceholder: "Example: templates/template-file",
+		cartoonsHeading: "Cartoons",
+		animeHeading: "Anime",
+		animatedSeriesHeading: "Animated series",
+		typeFileName: "File name",
+		typeFileNameDesc:
+			"Leave empty to use the movie or TV series file name format.",
+		typeFileLocation: "File location",
+		typeFileLocationDesc:
+			"Leave empty to use the movie or TV series folder.",
+		typeTemplateFile: "Template file",
+		typeTemplateFileDesc:
+			"Leave empty to use the movie or TV series template.",
+		peopleHeading: "People",
+		peopleDesc: "How many people of each profession are saved to the note.",
+		peopleLimitDesc: "Maximum number of people, 0 to skip.",
+		professions: {
+			director: "Directors",
+			actor: "Actors",
+			writer: "Writers",
+			producer: "Producers",
+			composer: "Composers",
+			operator: "Cinematographers",
+			editor: "Editors",
+			designer: "Designers",
+			voice_actor: "Voice actors",
+		},
+		personNotesHeading: "Person notes",
+		personNotesEnabled: "Create person notes",
+		personNotesEnabledDesc:
+			"After a movie note is created, create or update notes of its directors and actors.",
+		personNotesFolder: "Person notes location",
+		personNotesFolderDesc: "New person notes will be placed here.",
+		personNotesFolderPlaceholder: "Example: People",
+		personTemplateFile: "Person template file",
+		personTemplateFileDesc:
+			"Template of new person notes. The movie is added to the filmography section.",
+		personTemplateExample: "Example template",
+		personNotesLimit: "People per movie",
+		personNotesLimitDesc:
+			"How many person notes are processed for one movie: directors first, then actors. Every new note costs one more API request.",
+		hubNotesHeading: "Hub notes",
+		hubNotesEnabled: "Create hub notes",
+		hubNotesEnabledDesc:
+			"After a movie note is created, create missing notes of its genres, countries, networks and studios.",
+		hubKinds: {
+			genre: "Genre",
+			country: "Country",
+			network: "Network",
+			studio: "Studio",
+		},
+		hubFolder: "{kind} notes location",
+		hubFolderDesc: "New hub notes will be placed here.",
+		hubFolderPlaceholder: "Example: Genres",
+		hubTemplateFile: "{kind} template file",
+		hubTemplateFileDesc:
+			"Template of hub notes. Without template the note is a list of its movies.",
+		hubTemplateExample: "Example template",
+		watchDiaryHeading: "Watch diary",
+		watchDiaryDesc:
+			"Properties written by the watch status, personal rating and viewing log commands.",
+		watchFields: {
+			status: "Status property",
+			rating: "Personal rating property",
+			dates: "Watched dates property",
+			rewatches: "Rewatch count property",
+		},
+		watchFieldDesc:
+			"Frontmatter property name, for example to match your Dataview dashboards.",
+		previewTemplate: "Preview",
+		emptyValues: "Empty properties",
+		emptyValuesDesc:
+			"What to do with properties that have no data for the title.",
+		emptyValuesEmpty: "Keep empty",
+		emptyValuesRemove: "Remove property",
+		emptyValuesNull: "Write null",
 		language: "Interface language",
 		languageDesc: "Select the plugin interface language.",
 	},
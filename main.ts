@@ -5,26 +5,105 @@
  * Coordinates the entire workflow of searching and creating movie/series notes.
  */
 
-import { Notice, Plugin } from "obsidian";
-import { SearchModal } from "Views/search_modal";
+import { Notice, Plugin, TFile } from "obsidian";
+import {
+	SearchModal,
+	SearchModalResult,
+	SearchResults,
+} from "Views/search_modal";
 import { ItemsSuggestModal } from "Views/suggest_modal";
-import { KinopoiskSuggestItem } from "Models/kinopoisk_response";
 import { MovieShow } from "Models/MovieShow.model";
 import {
 	ObsidianKinopoiskPluginSettings,
 	DEFAULT_SETTINGS,
 	ObsidianKinopoiskSettingTab,
+	PROVIDER_TOKEN_SETTINGS,
+	CONTENT_TYPE_SETTINGS,
+	ContentType,
+	NoteSettings,
+	PEOPLE_LIMIT_SETTINGS,
+	WATCH_FIELD_SETTINGS,
 } from "Settings/settings";
 import {
 	makeFileName,
+	makeFolderPath,
+	getStaticFolderPath,
+	ensureFolderExists,
 	getTemplateContents,
 	replaceVariableSyntax,
+	TemplateOptions,
 } from "Utils/utils";
 import { CursorJumper } from "Utils/cursor_jumper";
-import { initializeLanguage } from "./i18n";
+import {
+	applyFrontmatterChanges,
+	findKinopoiskId,
+	FrontmatterChange,
+	getFrontmatterChanges,
+	getGeneratedFrontmatterKeys,
+} from "Utils/frontmatterUpdate";
+import { getPluginFilePath } from "Utils/pluginStorage";
+import { BulkRefresher } from "Utils/bulkRefresh";
+import { MovieNoteIndex } from "Utils/movieNoteIndex";
+import { PersonNoteWriter } from "Utils/personNotes";
+import { HubNoteWriter } from "Utils/hubNotes";
+import {
+	FranchiseNoteWriter,
+	IMPORT_PROTOCOL_ACTION,
+} from "Utils/franchiseNotes";
+import {
+	MAX_PERSONAL_RATING,
+	WATCH_STATUSES,
+	WatchDiary,
+	WatchStatus,
+} from "Utils/watchDiary";
+import { KinopoiskProvider } from "APIProvider/provider";
+import { TmdbProvider } from "APIProvider/TmdbProvider";
+import { OmdbProvider } from "APIProvider/OmdbProvider";
+import { FixtureProvider } from "APIProvider/FixtureProvider";
+import { FixtureStore } from "APIProvider/FixtureStore";
+import {
+	MetadataProvider,
+	ProviderId,
+	usesKinopoiskIds,
+} from "APIProvider/MetadataProvider";
+import {
+	DEFAULT_PEOPLE_LIMITS,
+	PeopleLimits,
+	PersonProfession,
+} from "APIProvider/DataFormatter";
+import { ResponseCache } from "APIProvider/ResponseCache";
+import { RequestScheduler } from "APIProvider/RequestScheduler";
+import { QuotaTracker } from "APIProvider/QuotaTracker";
+import { QuotaStatusBar } from "Views/quota_status_bar";
+import { UsageModal } from "Views/usage_modal";
+import { MovieLoader } from "Views/movie_loader";
+import { FrontmatterDiffModal } from "Views/frontmatter_diff_modal";
+import { RefreshFolderModal } from "Views/refresh_folder_modal";
+import { DuplicateAction, DuplicateModal } from "Views/duplicate_modal";
+import { VariableCatalogModal } from "Views/variable_catalog_modal";
+import { WatchChoiceModal } from "Views/watch_choice_modal";
+import { LogViewingModal } from "Views/log_viewing_modal";
+import { initializeLanguage, t, tWithParams } from "./i18n";
+
+const CACHE_FILE_NAME = "cache.json";
+const USAGE_FILE_NAME = "usage.json";
+const REFRESH_JOB_FILE_NAME = "refresh-job.json";
+const STATUS_BAR_REFRESH_MS = 60 * 1000;
 
 export default class ObsidianKinopoiskPlugin extends Plugin {
 	settings: ObsidianKinopoiskPluginSettings;
+	responseCache: ResponseCache;
+	quotaTracker: QuotaTracker;
+	providers: Record<ProviderId, MetadataProvider>;
+	bulkRefresher: BulkRefresher;
+	noteIndex: MovieNoteIndex;
+	personNotes: PersonNoteWriter;
+	hubNotes: HubNoteWriter;
+	franchiseNotes: FranchiseNoteWriter;
+	watchDiary: WatchDiary;
+	// Last fetched title, used as template preview sample
+	lastMovieShow?: MovieShow;
+	private quotaStatusBar: QuotaStatusBar;
 
 	async onload() {
 		await this.loadSettings();
@@ -32,6 +111,140 @@ export default class ObsidianKinopoiskPlugin extends Plugin {
 		// Initialize language from settings or auto-detect
 		initializeLanguage(this.settings.language);
 
+		this.responseCache = new ResponseCache(
+			this.app.vault.adapter,
+			getPluginFilePath(this.manifest.dir, CACHE_FILE_NAME),
+			() => ({
+				enabled: this.settings.cacheEnabled,
+				ttlHours: {
+					search: this.settings.cacheSearchTtlHours,
+					details: this.settings.cacheMovieTtlHours,
+				},
+				maxEntries: this.settings.cacheMaxEntries,
+			})
+		);
+		await this.responseCache.load();
+
+		this.quotaTracker = new QuotaTracker(
+			this.app.vault.adapter,
+			getPluginFilePath(this.manifest.dir, USAGE_FILE_NAME),
+			() => ({
+				token: this.settings.apiToken,
+				dailyLimit: this.settings.dailyRequestLimit,
+				warningThreshold: this.settings.quotaWarningThreshold,
+			})
+		);
+		await this.quotaTracker.load();
+
+		const scheduler = new RequestScheduler(() => ({
+			requestsPerSecond: this.settings.requestsPerSecond,
+			maxRetries: this.settings.maxRetries,
+		}));
+
+		const fixtures = new FixtureStore(this.app.vault.adapter, () => ({
+			folder: this.settings.fixtureFolder,
+			record: this.settings.fixtureRecord,
+		}));
+
+		const services = {
+			cache: this.responseCache,
+			scheduler,
+			quota: this.quotaTracker,
+			fixtures,
+			peopleLimits: () => this.getPeopleLimits(),
+		};
+		this.providers = {
+			kinopoisk: new KinopoiskProvider(services),
+			tmdb: new TmdbProvider(services),
+			omdb: new OmdbProvider(services),
+			fixture: new FixtureProvider(fixtures, services.peopleLimits),
+		};
+
+		// Notes by Kinopoisk ID for duplicate detection
+		this.noteIndex = new MovieNoteIndex(this.app);
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file, _data, cache) =>
+				this.noteIndex.update(file, cache)
+			)
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => this.noteIndex.remove(file))
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) =>
+				this.noteIndex.rename(file, oldPath)
+			)
+		);
+
+		this.personNotes = new PersonNoteWriter(this);
+		this.hubNotes = new HubNoteWriter(this);
+		this.franchiseNotes = new FranchiseNoteWriter(this);
+		this.watchDiary = new WatchDiary(this);
+
+		// Watch diary actions in editor menu of movie notes
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, _editor, info) => {
+				const file = info.file;
+				if (!file || !this.getKinopoiskId(file)) return;
+
+				menu.addItem((item) =>
+					item
+						.setTitle(t("watchDiary.setStatus"))
+						.setIcon("eye")
+						.onClick(() => this.setWatchStatus(file))
+				);
+				menu.addItem((item) =>
+					item
+						.setTitle(t("watchDiary.setRating"))
+						.setIcon("star")
+						.onClick(() => this.setPersonalRating(file))
+				);
+				menu.addItem((item) =>
+					item
+						.setTitle(t("watchDiary.logViewing"))
+						.setIcon("calendar-plus")
+						.onClick(() => this.logViewing(file))
+				);
+			})
+		);
+
+		// Unfinished bulk refresh continues only on user request
+		this.bulkRefresher = new BulkRefresher(
+			this,
+			getPluginFilePath(this.manifest.dir, REFRESH_JOB_FILE_NAME)
+		);
+		await this.bulkRefresher.load();
+		this.app.workspace.onLayoutReady(() => {
+			const pendingCount = this.bulkRefresher.pendingCount;
+			if (pendingCount > 0) {
+				new Notice(
+					tWithParams("bulkRefresh.interrupted", {
+						count: pendingCount,
+					}),
+					0
+				);
+			}
+		});
+
+		// Daily quota indicator, refreshed on usage and on API day change
+		this.quotaStatusBar = new QuotaStatusBar(
+			this.addStatusBarItem(),
+			this.quotaTracker,
+			() => this.openUsageModal()
+		);
+		this.quotaStatusBar.update();
+		this.register(
+			this.quotaTracker.subscribe((status) =>
+				this.quotaStatusBar.update(status)
+			)
+		);
+		this.registerInterval(
+			window.setInterval(
+				() => this.quotaStatusBar.update(),
+				STATUS_BAR_REFRESH_MS
+			)
+		);
+
 		this.addRibbonIcon("film", "Search in Kinopoisk", () => {
 			this.createNewNote();
 		});
@@ -44,9 +257,143 @@ export default class ObsidianKinopoiskPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "update-kinopoisk-data-for-current-note",
+			name: "Update Kinopoisk data for current note",
+			callback: () => {
+				this.updateActiveNote();
+			},
+		});
+
+		this.addCommand({
+			id: "refresh-kinopoisk-data-in-folder",
+			name: "Refresh Kinopoisk data in folder",
+			callback: () => {
+				this.refreshNotesInFolder();
+			},
+		});
+
+		this.addCommand({
+			id: "stop-kinopoisk-bulk-refresh",
+			name: "Stop Kinopoisk bulk refresh",
+			callback: () => {
+				this.bulkRefresher.stop();
+			},
+		});
+
+		this.addCommand({
+			id: "create-franchise-note",
+			name: "Create franchise note",
+			callback: () => {
+				this.createFranchiseNote();
+			},
+		});
+
+		// Import links of franchise notes
+		this.registerObsidianProtocolHandler(
+			IMPORT_PROTOCOL_ACTION,
+			(params) => {
+				this.importMovie(Number(params.id));
+			}
+		);
+
+		this.addCommand({
+			id: "set-watch-status",
+			name: "Set watch status",
+			callback: () => {
+				this.setWatchStatus();
+			},
+		});
+
+		this.addCommand({
+			id: "set-personal-rating",
+			name: "Set personal rating",
+			callback: () => {
+				this.setPersonalRating();
+			},
+		});
+
+		this.addCommand({
+			id: "log-viewing",
+			name: "Log a viewing",
+			callback: () => {
+				this.logViewing();
+			},
+		});
+
+		this.addCommand({
+			id: "rebuild-hub-notes",
+			name: "Rebuild hub notes",
+			callback: () => {
+				this.rebuildHubNotes();
+			},
+		});
+
+		this.addCommand({
+			id: "show-template-variables",
+			name: "Show template variables",
+			callback: () => {
+				new VariableCatalogModal(this).open();
+			},
+		});
+
+		this.addCommand({
+			id: "clear-kinopoisk-cache",
+			name: "Clear Kinopoisk cache",
+			callback: () => {
+				this.clearResponseCache();
+			},
+		});
+
+		this.addCommand({
+			id: "show-kinopoisk-api-usage",
+			name: "Show Kinopoisk API usage",
+			callback: () => {
+				this.openUsageModal();
+			},
+		});
+
 		this.addSettingTab(new ObsidianKinopoiskSettingTab(this.app, this));
 	}
 
+	async onunload() {
+		await this.responseCache?.flush();
+		await this.quotaTracker?.flush();
+	}
+
+	// Metadata provider selected in settings
+	get provider(): MetadataProvider {
+		return (
+			this.providers[this.settings.provider] ?? this.providers.kinopoisk
+		);
+	}
+
+	// Provider that resolves Kinopoisk IDs: selected one if it can,
+	// Kinopoisk otherwise
+	get kinopoiskIdProvider(): MetadataProvider {
+		return usesKinopoiskIds(this.provider.id)
+			? this.provider
+			: this.providers.kinopoisk;
+	}
+
+	// API token of provider (selected by default),
+	// empty for providers without token
+	getProviderToken(provider: MetadataProvider = this.provider): string {
+		const tokenSettings = PROVIDER_TOKEN_SETTINGS[provider.id];
+		return tokenSettings ? this.settings[tokenSettings.token] : "";
+	}
+
+	// Opens API usage statistics for the last 30 days
+	openUsageModal(): void {
+		new UsageModal(this.app, this.quotaTracker).open();
+	}
+
+	// Removes all cached API responses
+	async clearResponseCache(): Promise<void> {
+		await this.responseCache.clear();
+		new Notice(t("cache.cleared"));
+	}
+
 	// Shows error notification to user
 	showNotice(error: Error) {
 		try {
@@ -60,85 +407,460 @@ export default class ObsidianKinopoiskPlugin extends Plugin {
 	async createNewNote(): Promise<void> {
 		try {
 			const movieShow = await this.searchMovieShow();
+			await this.createMovieNote(movieShow);
+		} catch (err) {
+			console.warn(err);
+			this.showNotice(err);
+		}
+	}
 
-			const {
-				movieFileNameFormat,
-				movieFolder,
-				seriesFileNameFormat,
-				seriesFolder,
-			} = this.settings;
-
-			const renderedContents = await this.getRenderedContents(movieShow);
-			const fileNameFormat = movieShow.isSeries
-				? seriesFileNameFormat
-				: movieFileNameFormat;
-			const folderPath = movieShow.isSeries ? seriesFolder : movieFolder;
-
-			// Create folder if it doesn't exist
-			if (
-				folderPath &&
-				!(await this.app.vault.adapter.exists(folderPath))
-			) {
-				await this.app.vault.createFolder(folderPath);
+	// Creates note of Kinopoisk title opened from import link
+	async importMovie(kinopoiskId: number): Promise<void> {
+		try {
+			if (!Number.isInteger(kinopoiskId) || kinopoiskId <= 0) {
+				throw new Error(t("franchise.invalidId"));
 			}
 
-			const fileName = await makeFileName(
-				this.app,
-				movieShow,
-				fileNameFormat,
-				folderPath
+			// Import links carry Kinopoisk IDs whatever source is selected
+			const movieShow = await new MovieLoader(
+				this,
+				this.kinopoiskIdProvider
+			).load((provider, token) =>
+				provider.lookup({ source: "kinopoisk", id: kinopoiskId }, token)
 			);
-			const filePath = `${folderPath}/${fileName}`;
-			const targetFile = await this.app.vault.create(
-				filePath,
-				renderedContents
+			await this.createMovieNote(movieShow);
+		} catch (err) {
+			console.warn(err);
+			this.showNotice(err);
+		}
+	}
+
+	// Creates note from template, title that already has a note
+	// is opened, refreshed or created again on user choice
+	async createMovieNote(movieShow: MovieShow): Promise<void> {
+		// Same movie may already have a note under another name
+		const existingNotes = this.noteIndex.findNotes(movieShow.id);
+		if (existingNotes.length > 0) {
+			const action = await this.openDuplicateModal(
+				movieShow,
+				existingNotes
 			);
-			const newLeaf = this.app.workspace.getLeaf(true);
-			if (!newLeaf) {
-				console.warn("No new leaf");
+			if (action === "open") {
+				await this.app.workspace
+					.getLeaf(true)
+					.openFile(existingNotes[0]);
+			}
+			if (action === "refresh") {
+				await this.refreshNote(existingNotes[0], movieShow);
+			}
+			if (action !== "create") {
 				return;
 			}
-			await newLeaf.openFile(targetFile, { state: { mode: "source" } });
-			newLeaf.setEphemeralState({ rename: "all" });
+		}
 
-			// Jump cursor to next template location
-			await new CursorJumper(this.app).jumpToNextCursorLocation();
-		} catch (err) {
-			console.warn(err);
-			this.showNotice(err);
+		// Images are saved only for note that is actually created
+		if (this.settings.saveImagesLocally) {
+			movieShow = await new MovieLoader(this).loadImages(movieShow);
+		}
+
+		const renderedContents = await this.getRenderedContents(movieShow);
+		const { fileNameFormat, folder } = this.getNoteSettings(movieShow);
+		const folderPath = makeFolderPath(movieShow, folder);
+
+		// Create folder with parents if it doesn't exist
+		await ensureFolderExists(this.app, folderPath);
+
+		const fileName = await makeFileName(
+			this.app,
+			movieShow,
+			fileNameFormat,
+			folderPath
+		);
+		const filePath = `${folderPath}/${fileName}`;
+		const targetFile = await this.app.vault.create(
+			filePath,
+			renderedContents
+		);
+		const newLeaf = this.app.workspace.getLeaf(true);
+		if (!newLeaf) {
+			console.warn("No new leaf");
+			return;
+		}
+		await newLeaf.openFile(targetFile, { state: { mode: "source" } });
+		newLeaf.setEphemeralState({ rename: "all" });
+
+		// Jump cursor to next template location
+		await new CursorJumper(this.app).jumpToNextCursorLocation();
+
+		if (this.settings.personNotesEnabled) {
+			await this.personNotes.update(movieShow, targetFile);
+		}
+		if (this.settings.hubNotesEnabled) {
+			await this.hubNotes.createMissing(movieShow, targetFile);
 		}
 	}
 
+	// Asks what to do with movie that already has a note
+	async openDuplicateModal(
+		movieShow: MovieShow,
+		existingNotes: TFile[]
+	): Promise<DuplicateAction | null> {
+		return new Promise((resolve) => {
+			new DuplicateModal(
+				this.app,
+				movieShow.nameForFile,
+				existingNotes,
+				resolve
+			).open();
+		});
+	}
+
 	// Coordinates search process: search then select from results
 	async searchMovieShow(): Promise<MovieShow> {
-		const searchedItems = await this.openSearchModal();
-		return await this.openSuggestModal(searchedItems);
+		const searchResult = await this.openSearchModal();
+		if (searchResult.kind === "movie") {
+			return searchResult.movieShow;
+		}
+		return await this.openSuggestModal(searchResult.results);
 	}
 
-	// Opens search modal and returns found items
-	async openSearchModal(): Promise<KinopoiskSuggestItem[]> {
+	// Opens search modal and returns first page of found items
+	// or movie found by direct link/ID
+	async openSearchModal(): Promise<SearchModalResult> {
 		return new Promise((resolve, reject) => {
 			return new SearchModal(this, (error, results) => {
-				return error ? reject(error) : resolve(results ?? []);
+				return error ? reject(error) : resolve(results!);
 			}).open();
 		});
 	}
 
 	// Opens suggestion modal and returns detailed info about selected item
-	async openSuggestModal(items: KinopoiskSuggestItem[]): Promise<MovieShow> {
+	async openSuggestModal(searchResults: SearchResults): Promise<MovieShow> {
 		return new Promise((resolve, reject) => {
-			return new ItemsSuggestModal(this, items, (error, selectedItem) => {
-				return error ? reject(error) : resolve(selectedItem!);
-			}).open();
+			return new ItemsSuggestModal(
+				this,
+				searchResults,
+				(error, selectedItem) => {
+					return error ? reject(error) : resolve(selectedItem!);
+				}
+			).open();
 		});
 	}
 
+	// Refreshes template-generated properties of active note by Kinopoisk ID
+	async updateActiveNote(): Promise<void> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file || file.extension !== "md") {
+			new Notice(t("refresh.noActiveNote"));
+			return;
+		}
+
+		try {
+			const frontmatter =
+				this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const kinopoiskId = findKinopoiskId(frontmatter);
+			if (!kinopoiskId) {
+				throw new Error(t("refresh.noKinopoiskId"));
+			}
+
+			// Images are not downloaded again, image properties are kept.
+			// Cached details may be days old, refresh loads fresh ones.
+			const movieShow = await new MovieLoader(
+				this,
+				this.kinopoiskIdProvider
+			).load((provider, token) =>
+				provider.lookup(
+					{ source: "kinopoisk", id: kinopoiskId },
+					token,
+					{ useCache: false }
+				)
+			);
+			await this.refreshNote(file, movieShow);
+		} catch (err) {
+			console.warn(err);
+			this.showNotice(err);
+		}
+	}
+
+	// Writes franchise note of active note's title and opens it
+	async createFranchiseNote(): Promise<void> {
+		const file = this.getActiveMovieNote();
+		const kinopoiskId = file && this.getKinopoiskId(file);
+		if (!file || !kinopoiskId) return;
+
+		try {
+			const movieShow = await new MovieLoader(
+				this,
+				this.kinopoiskIdProvider
+			).load((provider, token) =>
+				provider.lookup({ source: "kinopoisk", id: kinopoiskId }, token)
+			);
+			const franchiseFile = await this.franchiseNotes.write(
+				movieShow,
+				file
+			);
+			if (!franchiseFile) {
+				new Notice(t("franchise.noRelated"));
+				return;
+			}
+			await this.app.workspace.getLeaf(true).openFile(franchiseFile);
+		} catch (err) {
+			console.warn(err);
+			this.showNotice(err);
+		}
+	}
+
+	// Writes changed properties to note after user confirms them
+	async refreshNote(file: TFile, movieShow: MovieShow): Promise<void> {
+		const changes = await this.getNoteChanges(file, movieShow);
+		if (changes.length === 0) {
+			new Notice(t("refresh.upToDate"));
+			return;
+		}
+
+		if (!(await this.confirmFrontmatterChanges(file, changes))) {
+			return;
+		}
+
+		await this.app.vault.process(file, (content) =>
+			applyFrontmatterChanges(content, changes)
+		);
+		new Notice(t("refresh.updated"));
+	}
+
+	// Kinopoisk ID from note properties
+	getKinopoiskId(file: TFile): number | null {
+		return findKinopoiskId(
+			this.app.metadataCache.getFileCache(file)?.frontmatter
+		);
+	}
+
+	// Active movie note, notice is shown when there is none
+	getActiveMovieNote(): TFile | null {
+		const file = this.app.workspace.getActiveFile();
+		if (!file || file.extension !== "md") {
+			new Notice(t("refresh.noActiveNote"));
+			return null;
+		}
+		if (!this.getKinopoiskId(file)) {
+			new Notice(t("refresh.noKinopoiskId"));
+			return null;
+		}
+		return file;
+	}
+
+	// Asks watch status and writes it to movie note
+	setWatchStatus(file = this.getActiveMovieNote()): void {
+		if (!file) return;
+
+		const currentStatus =
+			this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+				this.settings.watchStatusField
+			];
+		new WatchChoiceModal<WatchStatus>(
+			this.app,
+			t("watchDiary.statusPlaceholder"),
+			WATCH_STATUSES.map((status) => ({
+				value: status,
+				label: t(`watchDiary.statuses.${status}`),
+			})),
+			currentStatus,
+			(status) =>
+				this.runWatchDiaryAction(() =>
+					this.watchDiary.setStatus(file, status)
+				)
+		).open();
+	}
+
+	// Asks personal rating from 10 to 1 and writes it to movie note
+	setPersonalRating(file = this.getActiveMovieNote()): void {
+		if (!file) return;
+
+		const currentRating =
+			this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+				this.settings.personalRatingField
+			];
+		const ratings = Array.from(
+			{ length: MAX_PERSONAL_RATING },
+			(_, index) => MAX_PERSONAL_RATING - index
+		);
+		new WatchChoiceModal<number>(
+			this.app,
+			t("watchDiary.ratingPlaceholder"),
+			ratings.map((rating) => ({ value: rating, label: String(rating) })),
+			currentRating,
+			(rating) =>
+				this.runWatchDiaryAction(() =>
+					this.watchDiary.setRating(file, rating)
+				)
+		).open();
+	}
+
+	// Asks date and comment of viewing and logs it in movie note
+	logViewing(file = this.getActiveMovieNote()): void {
+		if (!file) return;
+
+		new LogViewingModal(this.app, (date, comment) =>
+			this.runWatchDiaryAction(() =>
+				this.watchDiary.logViewing(file, date, comment)
+			)
+		).open();
+	}
+
+	// Shows errors of watch diary writes
+	private async runWatchDiaryAction(
+		action: () => Promise<void>
+	): Promise<void> {
+		try {
+			await action();
+		} catch (err) {
+			console.warn(err);
+			this.showNotice(err);
+		}
+	}
+
+	// Regenerates hub notes of all movie notes in vault
+	async rebuildHubNotes(): Promise<void> {
+		if (!this.settings.hubNotesEnabled) {
+			new Notice(t("hubNotes.disabled"));
+			return;
+		}
+
+		try {
+			await this.hubNotes.rebuild();
+		} catch (error) {
+			console.warn(error);
+			this.showNotice(error);
+		}
+	}
+
+	// Resumes unfinished bulk refresh or asks for folder to start new one
+	refreshNotesInFolder(): void {
+		if (this.bulkRefresher.pendingCount > 0) {
+			this.bulkRefresher.resume();
+			return;
+		}
+
+		const { movieFolder, seriesFolder } = this.settings;
+		const typeFolders = Object.values(CONTENT_TYPE_SETTINGS)
+			.map((keys) => this.settings[keys.folder])
+			.filter((folder) => folder);
+		// Dynamic folders are refreshed from their static part
+		const noteFolders = Array.from(
+			new Set(
+				[movieFolder, seriesFolder, ...typeFolders].map(
+					getStaticFolderPath
+				)
+			)
+		);
+		new RefreshFolderModal(this.app, noteFolders, (folders) => {
+			this.bulkRefresher.start(folders);
+		}).open();
+	}
+
+	// Compares template-generated properties of note with fresh data
+	async getNoteChanges(
+		file: TFile,
+		movieShow: MovieShow
+	): Promise<FrontmatterChange[]> {
+		const template = await getTemplateContents(
+			this.app,
+			this.getTemplateFile(movieShow)
+		);
+		// Watch diary keys belong to user even if template fills them
+		const watchKeys = Object.values(WATCH_FIELD_SETTINGS).map(
+			(key) => this.settings[key]
+		);
+		const generatedKeys = getGeneratedFrontmatterKeys(template).filter(
+			(key) => !watchKeys.includes(key)
+		);
+		if (generatedKeys.length === 0) {
+			throw new Error(t("refresh.noTemplateKeys"));
+		}
+
+		return getFrontmatterChanges(
+			await this.app.vault.read(file),
+			replaceVariableSyntax(
+				movieShow,
+				template,
+				this.getTemplateOptions(movieShow)
+			),
+			generatedKeys
+		);
+	}
+
+	// Shows changed properties and resolves true when user saves them
+	async confirmFrontmatterChanges(
+		file: TFile,
+		changes: FrontmatterChange[]
+	): Promise<boolean> {
+		return new Promise((resolve) => {
+			new FrontmatterDiffModal(
+				this.app,
+				file.basename,
+				changes,
+				resolve
+			).open();
+		});
+	}
+
+	// File name format, folder and template of content type,
+	// unset ones are taken from movie or series settings
+	getNoteSettings(movieShow: MovieShow): NoteSettings {
+		const { settings } = this;
+		const fallback: NoteSettings = {
+			fileNameFormat: settings.movieFileNameFormat,
+			folder: settings.movieFolder,
+			templateFile: settings.movieTemplateFile,
+		};
+		if (movieShow.isSeries) {
+			fallback.fileNameFormat = settings.seriesFileNameFormat;
+			fallback.folder = settings.seriesFolder;
+			fallback.templateFile = settings.seriesTemplateFile;
+		}
+
+		const keys =
+			CONTENT_TYPE_SETTINGS[movieShow.contentType as ContentType];
+		if (!keys) return fallback;
+
+		return {
+			fileNameFormat:
+				settings[keys.fileNameFormat] || fallback.fileNameFormat,
+			folder: settings[keys.folder] || fallback.folder,
+			templateFile: settings[keys.templateFile] || fallback.templateFile,
+		};
+	}
+
+	// Number of people kept for each profession
+	getPeopleLimits(): PeopleLimits {
+		const limits = { ...DEFAULT_PEOPLE_LIMITS };
+		for (const profession of Object.keys(
+			PEOPLE_LIMIT_SETTINGS
+		) as PersonProfession[]) {
+			limits[profession] =
+				this.settings[PEOPLE_LIMIT_SETTINGS[profession]];
+		}
+		return limits;
+	}
+
+	// Template file configured for content type of title
+	getTemplateFile(movieShow: MovieShow): string {
+		return this.getNoteSettings(movieShow).templateFile;
+	}
+
+	// Rendering options configured for movies or series
+	getTemplateOptions(movieShow: MovieShow): TemplateOptions {
+		const { movieEmptyValues, seriesEmptyValues } = this.settings;
+		return {
+			emptyValues: movieShow.isSeries
+				? seriesEmptyValues
+				: movieEmptyValues,
+		};
+	}
+
 	// Loads template content and fills it with movie/series data
 	async getRenderedContents(movieShow: MovieShow) {
-		const { movieTemplateFile, seriesTemplateFile } = this.settings;
-		const templateFile = movieShow.isSeries
-			? seriesTemplateFile
-			: movieTemplateFile;
+		const templateFile = this.getTemplateFile(movieShow);
 		if (templateFile) {
 			const templateContents = await getTemplateContents(
 				this.app,
@@ -146,7 +868,8 @@ export default class ObsidianKinopoiskPlugin extends Plugin {
 			);
 			const replacedVariable = replaceVariableSyntax(
 				movieShow,
-				templateContents
+				templateContents,
+				this.getTemplateOptions(movieShow)
 			);
 			return replacedVariable;
 		}
@@ -163,5 +886,7 @@ export default class ObsidianKinopoiskPlugin extends Plugin {
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		// Token or limits may have changed
+		this.quotaStatusBar?.update();
 	}
 }